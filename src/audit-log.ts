@@ -0,0 +1,107 @@
+import { appendFileSync, mkdirSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+export const DEFAULT_AUDIT_LOG = join(homedir(), '.honeybadger-mcp', 'audit.jsonl');
+
+// One API request made by a write tool, with the target's state around it
+export interface AuditedRequest {
+  method: string;
+  url: string;
+  project_id?: number;
+  fault_id?: number;
+  body?: any;
+  // Fetched before updates and deletes, and after updates; creates record the API response
+  before?: any;
+  after?: any;
+  status: 'success' | 'error';
+  error?: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  profile: string;
+  // First 12 hex digits of the SHA-256 of the HTTP bearer token
+  caller?: string;
+  client?: string;
+  session?: string;
+  // How a destructive or bulk write was approved: by the user in an elicitation
+  // form, or by the model's confirm argument
+  confirmation?: 'elicitation' | 'confirm_argument';
+  arguments: Record<string, any>;
+  targets: { project_ids: number[]; fault_ids: number[] };
+  requests: AuditedRequest[];
+  outcome: 'success' | 'error';
+  // First line of the tool's response: a summary on success, the message on error
+  result: string;
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  projectId?: number;
+  outcome?: 'success' | 'error';
+  limit: number;
+}
+
+/**
+ * Append-only JSONL record of write tool calls, kept on the machine running
+ * the server so changes made through it can be traced outside Honeybadger.
+ */
+export class AuditLog {
+  constructor(readonly path: string) {}
+
+  /**
+   * HONEYBADGER_AUDIT_LOG sets the file (default ~/.honeybadger-mcp/audit.jsonl);
+   * "false" turns auditing off.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): AuditLog | undefined {
+    const path = env.HONEYBADGER_AUDIT_LOG;
+    if (path === 'false') return undefined;
+    return new AuditLog(path || DEFAULT_AUDIT_LOG);
+  }
+
+  append(entry: AuditEntry) {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(entry)}\n`);
+  }
+
+  /**
+   * Matching entries, newest first. Lines that are not valid JSON (e.g., a
+   * write cut short by a crash) are counted and skipped.
+   */
+  query(query: AuditQuery): { entries: AuditEntry[]; total: number; skipped: number } {
+    let text: string;
+    try {
+      text = readFileSync(this.path, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { entries: [], total: 0, skipped: 0 };
+      throw new Error(`Could not read audit log ${this.path}: ${error.message}`);
+    }
+
+    let skipped = 0;
+    const matches: AuditEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        skipped++;
+        continue;
+      }
+      // ISO timestamps in UTC compare correctly as strings
+      if (query.since && entry.timestamp < query.since) continue;
+      if (query.until && entry.timestamp > query.until) continue;
+      if (query.tool && entry.tool !== query.tool) continue;
+      if (query.projectId !== undefined && !entry.targets?.project_ids?.includes(query.projectId)) continue;
+      if (query.outcome && entry.outcome !== query.outcome) continue;
+      matches.push(entry);
+    }
+    matches.reverse();
+    return { entries: matches.slice(0, query.limit), total: matches.length, skipped };
+  }
+}
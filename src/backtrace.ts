@@ -0,0 +1,137 @@
+import type { BacktraceFrame } from './source.js';
+
+export type FrameKind = 'application' | 'library' | 'framework';
+
+export interface ClassifiedFrame extends BacktraceFrame {
+  index: number;
+  kind: FrameKind;
+}
+
+// A run of consecutive non-application frames folded into one entry
+export interface CollapsedFrames {
+  kind: Exclude<FrameKind, 'application'>;
+  collapsed: number;
+  first: string;
+  last: string;
+}
+
+export interface NormalizedBacktrace {
+  culprit?: ClassifiedFrame;
+  counts: Record<FrameKind, number>;
+  frames: Array<ClassifiedFrame | CollapsedFrames>;
+}
+
+export interface FrameClassifierConfig {
+  application: RegExp[];
+  library: RegExp[];
+  framework: RegExp[];
+}
+
+// Packages whose frames are plumbing around application code rather than a
+// plausible cause: web frameworks, app servers, job runners, runtimes.
+const FRAMEWORK_PACKAGES = [
+  'actioncable', 'actionmailer', 'actionpack', 'actionview', 'activejob', 'activemodel', 'activerecord',
+  'activesupport', 'railties', 'rack', 'puma', 'unicorn', 'sidekiq', 'sinatra', 'hanami',
+  'express', 'koa', 'fastify', '@nestjs', 'next', 'react-dom', 'vue', '@angular',
+  'django', 'flask', 'celery', 'gunicorn', 'starlette', 'fastapi', 'laravel', 'symfony',
+];
+
+export const DEFAULT_FRAME_PATTERNS: FrameClassifierConfig = {
+  application: [],
+  library: [
+    /\[GEM_ROOT\]/,
+    /(^|\/)node_modules\//,
+    /(^|\/)vendor\//,
+    /\/gems\/[^/]+-\d/,
+    /\/(site|dist)-packages\//,
+    /\/\.cargo\/registry\//,
+    /\/go\/pkg\/mod\//,
+  ],
+  framework: [
+    /^node:/,
+    /^internal\//,
+    /^<internal:/,
+    /\/lib\/ruby\/\d/,
+    /\/lib\/python\d(\.\d+)?\/(?!site-packages|dist-packages)/,
+    new RegExp(`(/gems/|node_modules/|-packages/)(${FRAMEWORK_PACKAGES.join('|')})(-\\d|/)`),
+  ],
+};
+
+const parsePatterns = (value?: string) =>
+  (value || '').split(',').map((p) => p.trim()).filter(Boolean).map((p) => new RegExp(p));
+
+/**
+ * Classifies backtrace frames as application, library or framework code using
+ * Honeybadger's `[PROJECT_ROOT]` / `[GEM_ROOT]` markers, dependency directories
+ * and configurable patterns. Configured application patterns win over the rest.
+ */
+export class FrameClassifier {
+  constructor(private patterns: FrameClassifierConfig = DEFAULT_FRAME_PATTERNS) {}
+
+  /**
+   * Adds comma-separated regexes from HONEYBADGER_APP_FRAME_PATTERNS,
+   * HONEYBADGER_LIBRARY_FRAME_PATTERNS and HONEYBADGER_FRAMEWORK_FRAME_PATTERNS.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): FrameClassifier {
+    return new FrameClassifier({
+      application: [...DEFAULT_FRAME_PATTERNS.application, ...parsePatterns(env.HONEYBADGER_APP_FRAME_PATTERNS)],
+      library: [...DEFAULT_FRAME_PATTERNS.library, ...parsePatterns(env.HONEYBADGER_LIBRARY_FRAME_PATTERNS)],
+      framework: [...DEFAULT_FRAME_PATTERNS.framework, ...parsePatterns(env.HONEYBADGER_FRAMEWORK_FRAME_PATTERNS)],
+    });
+  }
+
+  classify(frame: BacktraceFrame): FrameKind {
+    const file = frame.file || '';
+    if (this.patterns.application.some((p) => p.test(file))) return 'application';
+    if (this.patterns.framework.some((p) => p.test(file))) return 'framework';
+    if (this.patterns.library.some((p) => p.test(file))) return 'library';
+    // Unmarked paths are treated as application code so a culprit is still found
+    // for projects that do not report [PROJECT_ROOT]
+    return 'application';
+  }
+
+  /**
+   * Classifies every frame, folds consecutive library/framework frames into a
+   * single entry and picks the first application frame as the culprit.
+   */
+  normalize(backtrace: BacktraceFrame[] = []): NormalizedBacktrace {
+    const counts: Record<FrameKind, number> = { application: 0, library: 0, framework: 0 };
+    const frames: Array<ClassifiedFrame | CollapsedFrames> = [];
+    let culprit: ClassifiedFrame | undefined;
+
+    backtrace.forEach((frame, index) => {
+      const kind = this.classify(frame);
+      counts[kind]++;
+      if (kind === 'application') {
+        const classified = { ...frame, index, kind };
+        culprit ??= classified;
+        frames.push(classified);
+        return;
+      }
+      const location = `${frame.file}:${frame.number}`;
+      const previous = frames[frames.length - 1];
+      if (previous && 'collapsed' in previous && previous.kind === kind) {
+        previous.collapsed++;
+        previous.last = location;
+      } else {
+        frames.push({ kind, collapsed: 1, first: location, last: location });
+      }
+    });
+
+    return { culprit, counts, frames };
+  }
+}
+
+/**
+ * One line per entry, e.g. "app/models/user.rb:12 in `name`" or
+ * "… 14 library frames (gems/rack-2.2/lib/rack.rb:1 → …)".
+ */
+export function formatNormalizedFrames(frames: NormalizedBacktrace['frames'], limit = frames.length): string[] {
+  return frames.slice(0, limit).map((entry) => {
+    if ('collapsed' in entry) {
+      const range = entry.collapsed === 1 ? entry.first : `${entry.first} → ${entry.last}`;
+      return `… ${entry.collapsed} ${entry.kind} frame${entry.collapsed === 1 ? '' : 's'} (${range})`;
+    }
+    return `${entry.file}:${entry.number} in \`${entry.method}\``;
+  });
+}
@@ -0,0 +1,378 @@
+// BadgerQL is a pipeline: `fields ... | filter ... | stats ... by ... | sort ... | limit n`.
+// Each stage starts with one of these commands.
+const COMMANDS: Record<string, string> = {
+  fields: 'Select',
+  filter: 'Keep events where',
+  stats: 'Aggregate',
+  sort: 'Sort by',
+  limit: 'Return at most',
+  parse: 'Extract fields from text with',
+  expand: 'Turn each element of an array into its own row:',
+  only: 'Keep only the columns',
+  unique: 'Keep one row per distinct',
+};
+
+// Not exhaustive: an unknown function is a warning, never an error
+const AGGREGATES = ['count', 'sum', 'avg', 'min', 'max', 'percentile', 'unique', 'first', 'last'];
+const CAST_TYPES = ['str', 'int', 'float', 'bool', 'time'];
+const SQL_KEYWORDS = ['select', 'from', 'where', 'group', 'order', 'having'];
+
+// Fields every Insights event has, whatever its type
+export const BUILTIN_FIELDS = [
+  { name: '@ts', description: 'Event timestamp' },
+  { name: '@id', description: 'Event ID' },
+  { name: '@preview', description: 'The whole event as JSON' },
+];
+
+type TokenType = 'word' | 'string' | 'regex' | 'number' | 'op' | 'punct';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  offset: number;
+}
+
+export interface QueryIssue {
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface QueryCheck {
+  valid: boolean;
+  errors: QueryIssue[];
+  warnings: QueryIssue[];
+  // What each stage does, in order
+  steps: string[];
+}
+
+const OPERATORS = ['::', '==', '!=', '<=', '>=', '=~', '!~', '<', '>', '=', '+', '-', '*', '/', '%'];
+// Words after which a "/" opens a regex literal rather than dividing
+const REGEX_PRECEDERS = ['match', 'and', 'or', 'not'];
+
+/**
+ * Local syntax check of a BadgerQL query: stage commands, balanced parentheses
+ * and strings, `limit` and `sort` arguments, aggregate and cast names, and SQL
+ * written by mistake. Passing it does not mean Insights knows every field.
+ */
+export function checkBadgerQL(query: string): QueryCheck {
+  const errors: QueryIssue[] = [];
+  const warnings: QueryIssue[] = [];
+  const at = (offset: number) => {
+    const before = query.slice(0, offset).split('\n');
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+  };
+  const error = (message: string, offset: number) => errors.push({ message, ...at(offset) });
+  const warn = (message: string, offset: number) => warnings.push({ message, ...at(offset) });
+
+  const tokens = tokenize(query, error);
+  if (tokens.length === 0) {
+    error('The query is empty', 0);
+    return { valid: false, errors, warnings, steps: [] };
+  }
+  if (SQL_KEYWORDS.includes(tokens[0].text.toLowerCase()) && tokens[0].type === 'word') {
+    error('BadgerQL is not SQL. Write a pipeline of stages instead, e.g. filter event_type::str == "notice" | stats count() by class::str', 0);
+    return { valid: false, errors, warnings, steps: [] };
+  }
+
+  // Split into stages on pipes outside parentheses
+  const stages: Token[][] = [[]];
+  const open: Token[] = [];
+  let pipe = 0;
+  for (const token of tokens) {
+    if (token.text === '(' || token.text === '[') open.push(token);
+    if (token.text === ')' || token.text === ']') {
+      const expected = token.text === ')' ? '(' : '[';
+      if (open.pop()?.text !== expected) error(`Unmatched "${token.text}"`, token.offset);
+    }
+    if (token.text === '|' && open.length === 0) {
+      if (stages[stages.length - 1].length === 0) error('Empty stage: nothing between two pipes', token.offset);
+      stages.push([]);
+      pipe = token.offset;
+    } else {
+      stages[stages.length - 1].push(token);
+    }
+  }
+  for (const token of open) error(`Unclosed "${token.text}"`, token.offset);
+  if (stages[stages.length - 1].length === 0 && stages.length > 1) error('The query ends with a pipe', pipe);
+
+  const steps: string[] = [];
+  for (const stage of stages.filter((s) => s.length > 0)) {
+    const [head, ...args] = stage;
+    const command = head.text.toLowerCase();
+    const text = args.length > 0 ? query.slice(args[0].offset, end(args[args.length - 1])).replace(/\s+/g, ' ') : '';
+    if (head.type !== 'word' || !(command in COMMANDS)) {
+      const suggestion = closest(command, Object.keys(COMMANDS));
+      error(`Unknown command "${head.text}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}. `
+        + `Stages start with one of: ${Object.keys(COMMANDS).join(', ')}`, head.offset);
+      continue;
+    }
+    if (args.length === 0) {
+      error(`"${command}" needs an argument`, head.offset);
+      continue;
+    }
+
+    checkCasts(args, warn);
+    if (command === 'limit') {
+      if (args.length !== 1 || args[0].type !== 'number' || !/^\d+$/.test(args[0].text) || Number(args[0].text) === 0) {
+        error('"limit" takes one positive whole number', args[0].offset);
+      }
+      steps.push(`${COMMANDS.limit} ${text} rows`);
+    } else if (command === 'stats') {
+      const by = args.findIndex((t) => t.type === 'word' && t.text.toLowerCase() === 'by');
+      const aggregates = by === -1 ? args : args.slice(0, by);
+      if (aggregates.length === 0) error('"stats" needs at least one aggregate before "by", e.g. count()', head.offset);
+      if (by !== -1 && by === args.length - 1) error('"by" needs at least one field to group on', args[by].offset);
+      aggregates.forEach((token, i) => {
+        if (token.type === 'word' && aggregates[i + 1]?.text === '(' && !AGGREGATES.includes(token.text.toLowerCase())) {
+          warn(`"${token.text}" is not a known aggregate (${AGGREGATES.join(', ')})`, token.offset);
+        }
+      });
+      const groups = by === -1 ? '' : query.slice(args[by + 1]?.offset ?? end(args[by]), end(args[args.length - 1]));
+      const aggregateText = aggregates.length > 0
+        ? query.slice(aggregates[0].offset, end(aggregates[aggregates.length - 1])).replace(/\s+/g, ' ')
+        : '';
+      steps.push(`${COMMANDS.stats} ${aggregateText}${groups ? ` grouped by ${groups.replace(/\s+/g, ' ')}` : ''}`);
+    } else if (command === 'sort') {
+      for (const item of splitOnCommas(args)) {
+        const last = item[item.length - 1];
+        if (item.length === 0) error('"sort" has an empty item between commas', head.offset);
+        else if (item.length > 1 && last.type === 'word' && !['asc', 'desc'].includes(last.text.toLowerCase())
+          && item[item.length - 2].type === 'word') {
+          error(`Sort direction must be "asc" or "desc", not "${last.text}"`, last.offset);
+        }
+      }
+      steps.push(`${COMMANDS.sort} ${text}`);
+    } else {
+      if (command === 'filter') {
+        for (const token of args) {
+          if (token.type === 'op' && token.text === '=') warn('BadgerQL compares with "==", not "="', token.offset);
+        }
+      }
+      steps.push(`${COMMANDS[command]} ${text}`);
+    }
+  }
+
+  const byPosition = (a: QueryIssue, b: QueryIssue) => a.line - b.line || a.column - b.column;
+  return { valid: errors.length === 0, errors: errors.sort(byPosition), warnings: warnings.sort(byPosition), steps };
+}
+
+const end = (token: Token) => token.offset + token.text.length;
+
+function tokenize(query: string, error: (message: string, offset: number) => void): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (query.startsWith('//', i)) {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < query.length && query[j] !== char) j += query[j] === '\\' ? 2 : 1;
+      if (j >= query.length) {
+        error(`Unterminated string starting with ${char}`, i);
+        return tokens;
+      }
+      tokens.push({ type: 'string', text: query.slice(i, j + 1), offset: i });
+      i = j + 1;
+    } else if (char === '/' && startsOperand(tokens[tokens.length - 1])) {
+      // Regex literal, e.g. match /^Timeout\d+$/i; a "/" inside [...] does not close it
+      let j = i + 1;
+      let inClass = false;
+      while (j < query.length && query[j] !== '\n' && (inClass || query[j] !== '/')) {
+        if (query[j] === '[') inClass = true;
+        else if (query[j] === ']') inClass = false;
+        j += query[j] === '\\' ? 2 : 1;
+      }
+      if (j >= query.length || query[j] !== '/') {
+        error('Unterminated regex starting with /', i);
+        return tokens;
+      }
+      const flags = /^[a-z]*/i.exec(query.slice(j + 1))![0];
+      tokens.push({ type: 'regex', text: query.slice(i, j + 1 + flags.length), offset: i });
+      i = j + 1 + flags.length;
+    } else if (/\d/.test(char)) {
+      // Durations such as 1h or 30m are numbers with a unit
+      const match = /^\d+(\.\d+)?[a-z]*/i.exec(query.slice(i))!;
+      tokens.push({ type: 'number', text: match[0], offset: i });
+      i += match[0].length;
+    } else if (/[@A-Za-z_]/.test(char)) {
+      const match = /^@?[\w.]+/.exec(query.slice(i))!;
+      tokens.push({ type: 'word', text: match[0], offset: i });
+      i += match[0].length;
+    } else if ('()[],|'.includes(char)) {
+      tokens.push({ type: 'punct', text: char, offset: i });
+      i++;
+    } else {
+      const op = OPERATORS.find((o) => query.startsWith(o, i));
+      if (!op) {
+        error(`Unexpected character "${char}"`, i);
+        i++;
+        continue;
+      }
+      tokens.push({ type: 'op', text: op, offset: i });
+      i += op.length;
+    }
+  }
+  return tokens;
+}
+
+// A "/" here begins a value (a regex), not a division of the previous one
+function startsOperand(previous: Token | undefined): boolean {
+  if (!previous) return true;
+  if (previous.type === 'op') return true;
+  if (previous.type === 'punct') return previous.text !== ')' && previous.text !== ']';
+  return previous.type === 'word' && REGEX_PRECEDERS.includes(previous.text.toLowerCase());
+}
+
+function checkCasts(tokens: Token[], warn: (message: string, offset: number) => void) {
+  tokens.forEach((token, i) => {
+    if (token.text !== '::') return;
+    const type = tokens[i + 1];
+    if (type?.type !== 'word') warn('"::" must be followed by a type, e.g. ::str', token.offset);
+    else if (!CAST_TYPES.includes(type.text.toLowerCase())) {
+      warn(`"${type.text}" is not a known type (${CAST_TYPES.join(', ')})`, type.offset);
+    }
+  });
+}
+
+function splitOnCommas(tokens: Token[]): Token[][] {
+  const items: Token[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.text === '(' || token.text === '[') depth++;
+    if (token.text === ')' || token.text === ']') depth--;
+    if (token.text === ',' && depth === 0) items.push([]);
+    else items[items.length - 1].push(token);
+  }
+  return items;
+}
+
+// Nearest name within two edits, for "did you mean" hints
+function closest(word: string, candidates: string[]): string | undefined {
+  const distance = (a: string, b: string) => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
+    }
+    return row[b.length];
+  };
+  const [best] = candidates
+    .map((candidate) => ({ candidate, d: distance(word, candidate) }))
+    .sort((x, y) => x.d - y.d);
+  return best && best.d <= 2 ? best.candidate : undefined;
+}
+
+// ── Results ──────────────────────────────────────────────────────────────────
+
+export interface InsightsTable {
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+/**
+ * Rows of an Insights query response as objects keyed by column, in the
+ * column order reported in `meta.fields` (or `meta.schema`) when present.
+ */
+export function toInsightsTable(result: any): InsightsTable {
+  const raw: any[] = Array.isArray(result?.results) ? result.results : Array.isArray(result) ? result : [];
+  const meta = result?.meta || {};
+  let columns: string[] = Array.isArray(meta.fields)
+    ? meta.fields.map((f: any) => (typeof f === 'string' ? f : f?.name)).filter(Boolean)
+    : Array.isArray(meta.schema) ? meta.schema.map((f: any) => f?.name).filter(Boolean) : [];
+  const rows = raw.map((row) => {
+    if (!Array.isArray(row)) return row ?? {};
+    return Object.fromEntries(row.map((value, i) => [columns[i] ?? `column_${i + 1}`, value]));
+  });
+  if (columns.length === 0) {
+    columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  }
+  return { columns, rows };
+}
+
+// ── Field discovery ──────────────────────────────────────────────────────────
+
+export interface FieldSummary {
+  name: string;
+  type: string;
+  // How many sampled events have the field
+  seen: number;
+  example?: string;
+}
+
+export interface EventTypeSummary {
+  event_type: string;
+  events: number;
+  fields: FieldSummary[];
+}
+
+const ISO_TIME = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?$/;
+
+const typeOf = (value: any) => {
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float';
+  if (typeof value === 'string') return ISO_TIME.test(value) ? 'time' : 'str';
+  return Array.isArray(value) ? 'array' : 'object';
+};
+
+/**
+ * Infers field names (as dot paths), types and examples from sampled events,
+ * grouped by their `event_type`. Arrays are reported as a whole, not per item.
+ */
+export function describeEvents(events: any[]): EventTypeSummary[] {
+  const groups = new Map<string, { events: number; fields: Map<string, { types: Set<string>; seen: number; example?: string }> }>();
+  for (const event of events) {
+    if (!event || typeof event !== 'object') continue;
+    const eventType = typeof event.event_type === 'string' ? event.event_type : '(none)';
+    let group = groups.get(eventType);
+    if (!group) {
+      group = { events: 0, fields: new Map() };
+      groups.set(eventType, group);
+    }
+    group.events++;
+
+    const visit = (value: any, path: string) => {
+      if (value === null || value === undefined) return;
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) visit(child, path ? `${path}.${key}` : key);
+        return;
+      }
+      let field = group!.fields.get(path);
+      if (!field) {
+        field = { types: new Set(), seen: 0 };
+        group!.fields.set(path, field);
+      }
+      field.types.add(typeOf(value));
+      field.seen++;
+      if (field.example === undefined && !Array.isArray(value)) {
+        const text = String(value);
+        field.example = text.length > 60 ? `${text.slice(0, 59)}…` : text;
+      }
+    };
+    visit(event, '');
+  }
+
+  return Array.from(groups.entries())
+    .sort(([, a], [, b]) => b.events - a.events)
+    .map(([eventType, group]) => ({
+      event_type: eventType,
+      events: group.events,
+      fields: Array.from(group.fields.entries())
+        .map(([name, f]) => ({
+          name,
+          // Numbers that are sometimes whole are floats; other mixes are listed as a|b
+          type: f.types.size === 2 && f.types.has('int') && f.types.has('float') ? 'float' : [...f.types].join('|'),
+          seen: f.seen,
+          ...(f.example !== undefined ? { example: f.example } : {}),
+        }))
+        .sort((a, b) => b.seen - a.seen || a.name.localeCompare(b.name)),
+    }));
+}
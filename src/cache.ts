@@ -0,0 +1,105 @@
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+export interface TtlRule {
+  pattern: RegExp;
+  ttlSeconds: number;
+}
+
+// First match wins, so more specific endpoints come first. Monitoring state
+// (uptime, check-ins) changes quickly; directory data (accounts, teams) rarely.
+export const DEFAULT_TTL_RULES: TtlRule[] = [
+  { pattern: /^\/projects\/\d+\/faults\/\d+\/notices/, ttlSeconds: 60 },
+  { pattern: /^\/projects\/\d+\/faults\/\d+\/affected_users/, ttlSeconds: 60 },
+  { pattern: /^\/projects\/\d+\/faults/, ttlSeconds: 30 },
+  { pattern: /^\/projects\/\d+\/(sites|check_ins)/, ttlSeconds: 15 },
+  { pattern: /^\/projects\/\d+\/deploys/, ttlSeconds: 60 },
+  { pattern: /^\/projects\/\d+\/(occurrences|reports)/, ttlSeconds: 120 },
+  { pattern: /^\/projects\/\d+\/integrations/, ttlSeconds: 300 },
+  { pattern: /^\/(accounts|teams)/, ttlSeconds: 600 },
+  { pattern: /^\/projects/, ttlSeconds: 300 },
+];
+
+const DEFAULT_TTL_SECONDS = 30;
+const MAX_ENTRIES = 500;
+
+/**
+ * In-memory TTL cache for GET responses with in-flight request coalescing:
+ * parallel calls for the same key share a single upstream request.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<any>>();
+
+  constructor(private rules: TtlRule[] = DEFAULT_TTL_RULES) {}
+
+  static key(endpoint: string, params?: Record<string, any>): string {
+    const query = Object.entries(params || {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${JSON.stringify(value)}`)
+      .join('&');
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  ttlFor(endpoint: string): number {
+    const rule = this.rules.find((r) => r.pattern.test(endpoint));
+    return (rule ? rule.ttlSeconds : DEFAULT_TTL_SECONDS) * 1000;
+  }
+
+  async getOrFetch(key: string, endpoint: string, fetch: () => Promise<any>, bypass = false): Promise<any> {
+    if (!bypass) {
+      const entry = this.entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) return entry.value;
+      const pending = this.inflight.get(key);
+      if (pending) return pending;
+    }
+
+    const request: Promise<any> = fetch()
+      .then((value) => {
+        // Skip caching if a write invalidated this key while the request was in flight
+        if (this.inflight.get(key) === request) this.set(key, value, this.ttlFor(endpoint));
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === request) this.inflight.delete(key);
+      });
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drops every cached response under the resource touched by a write, e.g. a
+   * PUT to /projects/1/faults/2 invalidates /projects/1/** and the /projects list.
+   */
+  invalidate(endpoint: string) {
+    const segments = endpoint.split('/').filter(Boolean);
+    const scope = `/${segments.slice(0, 2).join('/')}`;
+    const collection = `/${segments[0]}`;
+    const matches = (key: string) => {
+      const path = key.split('?')[0];
+      return path === collection
+        || path === scope
+        || path.startsWith(`${scope}/`)
+        || (collection === '/projects' && /^\/accounts\/[^/]+\/projects$/.test(path));
+    };
+    for (const key of this.entries.keys()) {
+      if (matches(key)) this.entries.delete(key);
+    }
+    for (const key of this.inflight.keys()) {
+      if (matches(key)) this.inflight.delete(key);
+    }
+  }
+
+  private set(key: string, value: any, ttlMs: number) {
+    if (ttlMs <= 0) return;
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.entries.size >= MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+}
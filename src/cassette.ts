@@ -0,0 +1,121 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { Redactor } from './redaction.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteRequest {
+  method: string;
+  endpoint: string;
+  params?: any;
+  data?: any;
+}
+
+export interface CassetteResponse {
+  status: number;
+  data: any;
+}
+
+export interface Interaction {
+  // Hash of the unredacted request, so secrets in params never reach the file
+  key: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+  recorded_at: string;
+}
+
+// Time windows are usually relative to now (e.g., "last 7 days"), so the exact
+// timestamps of a replayed request never match the recorded ones
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})?$/;
+
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, normalize(value[key])]));
+  }
+  return typeof value === 'string' && TIMESTAMP.test(value) ? '<time>' : value;
+};
+
+/**
+ * Records Honeybadger API traffic to a JSON file and serves it back offline.
+ * Requests are matched on method, endpoint, params and body (not host or key,
+ * and ignoring timestamp values), so a cassette recorded against one account
+ * replays with any configuration, on any day.
+ * Identical requests recorded more than once replay in order, the last one
+ * repeating, which keeps read-after-write sequences faithful.
+ */
+export class Cassette {
+  private interactions: Interaction[] = [];
+  private served = new Map<string, number>();
+  private redactor: Redactor;
+
+  constructor(readonly path: string, readonly mode: CassetteMode, redactor: Redactor) {
+    // Cassettes are files that get shared, so they are redacted even with HONEYBADGER_REDACTION=false
+    this.redactor = redactor.alwaysEnabled();
+    if (mode === 'replay') {
+      let file: any;
+      try {
+        file = JSON.parse(readFileSync(path, 'utf8'));
+      } catch (error: any) {
+        throw new Error(`Could not read cassette ${path}: ${error.message}`);
+      }
+      if (!Array.isArray(file?.interactions)) throw new Error(`Cassette ${path} has no "interactions" array`);
+      this.interactions = file.interactions;
+    }
+  }
+
+  /**
+   * HONEYBADGER_CASSETTE names the file; HONEYBADGER_CASSETTE_MODE is `replay`
+   * (default) or `record`. Recording starts a fresh cassette.
+   */
+  static fromEnv(redactor: Redactor, env: NodeJS.ProcessEnv = process.env): Cassette | undefined {
+    if (!env.HONEYBADGER_CASSETTE) return undefined;
+    const mode = env.HONEYBADGER_CASSETTE_MODE || 'replay';
+    if (mode !== 'record' && mode !== 'replay') {
+      throw new Error(`Invalid HONEYBADGER_CASSETTE_MODE "${mode}". Use "record" or "replay".`);
+    }
+    return new Cassette(env.HONEYBADGER_CASSETTE, mode, redactor);
+  }
+
+  static key(request: CassetteRequest): string {
+    const { method, endpoint, params, data } = request;
+    return createHash('sha256')
+      .update(JSON.stringify(normalize([method.toUpperCase(), endpoint, params ?? null, data ?? null])))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  replay(request: CassetteRequest): CassetteResponse {
+    const key = Cassette.key(request);
+    const matches = this.interactions.filter((interaction) => interaction.key === key);
+    if (matches.length === 0) {
+      const query = new URLSearchParams(request.params || {}).toString();
+      throw new Error(
+        `No recorded response for ${request.method} ${request.endpoint}${query ? `?${query}` : ''} in cassette ${this.path}. `
+        + 'Record it with HONEYBADGER_CASSETTE_MODE=record.'
+      );
+    }
+    const index = this.served.get(key) ?? 0;
+    this.served.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)].response;
+  }
+
+  record(request: CassetteRequest, response: CassetteResponse) {
+    // Backtraces are kept verbatim: they are what replayed analyses work from
+    const redact = (value: any) => this.redactor.redact(value, { skipKeys: ['backtrace'] }).value;
+    // List pages wrap their notices in `results`; each one is a top-level record
+    const redactData = (data: any) => (Array.isArray(data?.results)
+      ? { ...redact({ ...data, results: undefined }), results: redact(data.results) }
+      : redact(data));
+    this.interactions.push({
+      key: Cassette.key(request),
+      request: redact(request),
+      response: { status: response.status, data: redactData(response.data) },
+      recorded_at: new Date().toISOString(),
+    });
+    // Written after every request so an interrupted session still leaves a usable cassette
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify({ version: 1, interactions: this.interactions }, null, 2)}\n`);
+  }
+}
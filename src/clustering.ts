@@ -0,0 +1,146 @@
+import { createHash } from 'node:crypto';
+import type { FrameClassifier } from './backtrace.js';
+import type { BacktraceFrame } from './source.js';
+
+// Application frames used for the backtrace signature, from the culprit down
+const SIGNATURE_FRAMES = 3;
+
+export interface ClusterInput {
+  fault: {
+    id: string | number;
+    project_id: number;
+    klass: string;
+    message: string;
+    environment: string;
+    notices_count: number;
+    last_notice_at?: string;
+    url?: string;
+  };
+  // Backtrace of a representative notice, when fetched
+  backtrace?: BacktraceFrame[];
+}
+
+export interface FaultCluster {
+  fingerprint: string;
+  klass: string;
+  message_template: string;
+  frame_signature?: string;
+  total_notices: number;
+  fault_count: number;
+  project_ids: number[];
+  environments: string[];
+  faults: Array<{
+    id: string | number;
+    project_id: number;
+    environment: string;
+    notices_count: number;
+    message: string;
+    last_notice_at?: string;
+    url?: string;
+  }>;
+}
+
+/**
+ * Strips the parts of an error message that differ between occurrences of the
+ * same bug: UUIDs, hex digests, numbers, quoted values, emails and URLs.
+ */
+export function messageTemplate(message: string): string {
+  return (message || '')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/\b[0-9a-f]{16,}\b/gi, '<hex>')
+    .replace(/\bhttps?:\/\/\S+/g, '<url>')
+    .replace(/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '<email>')
+    // Quoted identifiers (method and constant names) are kept; quoted data is not
+    .replace(/(^|\W)(["'`])([^"'`\n]{1,200})\2/g, (match, before, _quote, inner) =>
+      (/^[A-Za-z_][\w:.?!]*$/.test(inner) ? match : `${before}<str>`))
+    .replace(/#<([A-Z][\w:]*)[^>]*>/g, '#<$1>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<addr>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Identifies a code path by its top application frames, using file and method
+ * only so the signature survives line shifts between releases.
+ */
+export function frameSignature(backtrace: BacktraceFrame[] | undefined, classifier: FrameClassifier): string | undefined {
+  if (!backtrace?.length) return undefined;
+  const appFrames = backtrace
+    .filter((frame) => classifier.classify(frame) === 'application')
+    .slice(0, SIGNATURE_FRAMES)
+    .map((frame) => `${frame.file.replace(/^\[PROJECT_ROOT\]\/?/, '')}#${frame.method}`);
+  return appFrames.length > 0 ? appFrames.join(' < ') : undefined;
+}
+
+const hash = (value: string) => createHash('sha1').update(value).digest('hex').slice(0, 12);
+
+/**
+ * Groups faults that share a class and either a message template or an
+ * application backtrace signature. Environment and project are ignored, so the
+ * same bug reported by staging and production, or by two services, ends up in
+ * one cluster. Clusters are sorted by total notices.
+ */
+export function clusterFaults(inputs: ClusterInput[], classifier: FrameClassifier): FaultCluster[] {
+  const parent = inputs.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const keys = inputs.map(({ fault, backtrace }) => {
+    const klass = (fault.klass || '').trim();
+    return {
+      klass,
+      template: messageTemplate(fault.message),
+      signature: frameSignature(backtrace, classifier),
+    };
+  });
+
+  const firstSeen = new Map<string, number>();
+  keys.forEach((key, i) => {
+    const candidates = [`m:${key.klass}|${key.template}`];
+    if (key.signature) candidates.push(`f:${key.klass}|${key.signature}`);
+    for (const candidate of candidates) {
+      const seen = firstSeen.get(candidate);
+      if (seen === undefined) firstSeen.set(candidate, i);
+      else union(i, seen);
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  inputs.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  const clusters = Array.from(groups.values()).map((members) => {
+    const faults = members
+      .map((i) => inputs[i].fault)
+      .sort((a, b) => (b.notices_count || 0) - (a.notices_count || 0));
+    // The busiest fault represents the cluster
+    const lead = members.find((i) => inputs[i].fault === faults[0]) as number;
+    const signature = members.map((i) => keys[i].signature).find(Boolean);
+    return {
+      fingerprint: hash(`${keys[lead].klass}|${keys[lead].template}|${signature || ''}`),
+      klass: keys[lead].klass,
+      message_template: keys[lead].template,
+      ...(signature ? { frame_signature: signature } : {}),
+      total_notices: faults.reduce((sum, f) => sum + (f.notices_count || 0), 0),
+      fault_count: faults.length,
+      project_ids: Array.from(new Set(faults.map((f) => f.project_id))),
+      environments: Array.from(new Set(faults.map((f) => f.environment).filter(Boolean))),
+      faults: faults.map((f) => ({
+        id: f.id,
+        project_id: f.project_id,
+        environment: f.environment,
+        notices_count: f.notices_count,
+        message: f.message,
+        last_notice_at: f.last_notice_at,
+        url: f.url,
+      })),
+    };
+  });
+
+  return clusters.sort((a, b) => b.total_notices - a.total_notices);
+}
@@ -0,0 +1,327 @@
+import { readFileSync } from 'node:fs';
+import type { BacktraceFrame } from './source.js';
+
+export interface ErrorRule {
+  id: string;
+  // Only applies when the backtrace is in this language
+  language?: string;
+  klass?: RegExp;
+  message?: RegExp;
+  causes: string[];
+  fixes: string[];
+}
+
+export interface ErrorClassification {
+  language?: string;
+  rules: string[];
+  causes: string[];
+  fixes: string[];
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  ruby: ['rb', 'erb', 'rake'],
+  javascript: ['js', 'mjs', 'cjs', 'jsx', 'ts', 'mts', 'cts', 'tsx', 'vue', 'svelte'],
+  python: ['py'],
+  go: ['go'],
+  php: ['php'],
+  elixir: ['ex', 'exs', 'heex'],
+  java: ['java', 'kt', 'scala'],
+  csharp: ['cs'],
+};
+
+const GENERIC_CAUSES = [
+  'Review the specific error class documentation',
+  'Check for common patterns in this error type',
+];
+
+// Ordered from specific to general: framework errors, then language errors, then
+// cross-language categories (timeouts, database, network)
+export const BUILTIN_ERROR_RULES: ErrorRule[] = [
+  // ── Rails / Ruby ──
+  {
+    id: 'rails-routing',
+    klass: /ActionController::RoutingError/,
+    causes: ['Request for a path with no matching route', 'Stale links, bots probing URLs, or a route removed in a deploy'],
+    fixes: ['Check `rails routes` for the path', 'Add a redirect for removed URLs or ignore bot traffic'],
+  },
+  {
+    id: 'rails-parameter-missing',
+    klass: /ActionController::ParameterMissing/,
+    causes: ['A required top-level param key is missing from the request', 'Client and strong params disagree on the payload shape'],
+    fixes: ['Compare the request params with `params.require(...)`', 'Return a 400 instead of raising for malformed requests'],
+  },
+  {
+    id: 'rails-authenticity-token',
+    klass: /ActionController::InvalidAuthenticityToken/,
+    causes: ['CSRF token missing or expired (cached page, expired session)', 'API client posting to a controller with forgery protection'],
+    fixes: ['Check session expiry and page caching', 'Use `protect_from_forgery with: :null_session` for API endpoints'],
+  },
+  {
+    id: 'ruby-no-method',
+    klass: /NoMethodError/,
+    causes: [
+      "A method is being called on an object that doesn't respond to it",
+      'Possible nil object or wrong object type',
+      'Missing method definition or typo in method name',
+    ],
+    fixes: ['Add nil checks: `object&.method_name`', 'Verify object type before method calls', 'Check method spelling and availability'],
+  },
+  {
+    id: 'ruby-name-error',
+    klass: /NameError/,
+    causes: ['Undefined variable or constant', 'Typo in variable/constant name', 'Scope issues'],
+    fixes: ['Check the spelling and load path of the constant', 'Verify autoloading/eager loading in production'],
+  },
+  {
+    id: 'ruby-argument-error',
+    klass: /ArgumentError/,
+    causes: ['Wrong number of arguments passed to a method', 'Invalid argument values', 'Method signature mismatch'],
+    fixes: ['Review method signatures', 'Validate input parameters', 'Add parameter validation'],
+  },
+  {
+    id: 'activerecord',
+    klass: /ActiveRecord/,
+    causes: ['Database-related error', 'Possible migration issues', 'Invalid queries or constraints'],
+    fixes: ['Check database migrations', 'Validate model associations', 'Review query syntax'],
+  },
+  // ── Django / Python ──
+  {
+    id: 'django-does-not-exist',
+    klass: /DoesNotExist$/,
+    causes: ['`.get()` found no row for the lookup', 'Record deleted or ID taken from stale input'],
+    fixes: ['Use `get_object_or_404` in views', 'Handle `Model.DoesNotExist` or use `.filter().first()`'],
+  },
+  {
+    id: 'django-integrity',
+    klass: /IntegrityError/,
+    causes: ['Unique, foreign key or NOT NULL constraint violated', 'Race between two requests creating the same row'],
+    fixes: ['Use `get_or_create`/`update_or_create` inside a transaction', 'Validate uniqueness before saving and catch the error'],
+  },
+  {
+    id: 'python-key-error',
+    language: 'python',
+    klass: /^KeyError$/,
+    causes: ['Dictionary lookup for a key that is not present', 'Payload or config shape changed'],
+    fixes: ['Use `dict.get(key, default)` where the key is optional', 'Validate input with a schema before indexing'],
+  },
+  {
+    id: 'python-attribute-error',
+    klass: /^AttributeError$/,
+    causes: ["Attribute accessed on `None` or an object of the wrong type", 'Typo or API change in a dependency'],
+    fixes: ['Guard against `None` before attribute access', 'Check the object type and the library version'],
+  },
+  {
+    id: 'python-import-error',
+    klass: /^(ImportError|ModuleNotFoundError)$/,
+    causes: ['Dependency missing from the deployed environment', 'Circular import or renamed module'],
+    fixes: ['Compare installed packages with requirements/lock file', 'Break circular imports by moving the import'],
+  },
+  {
+    id: 'python-value-error',
+    language: 'python',
+    klass: /^ValueError$/,
+    causes: ['Argument has the right type but an invalid value (e.g., parsing user input)'],
+    fixes: ['Validate and parse input at the boundary', 'Catch `ValueError` around conversions like `int()`'],
+  },
+  {
+    id: 'python-index-error',
+    language: 'python',
+    klass: /^IndexError$/,
+    causes: ['Sequence indexed past its end, often on an empty list'],
+    fixes: ['Check length before indexing', 'Handle empty results explicitly'],
+  },
+  // ── Laravel / PHP ──
+  {
+    id: 'laravel-model-not-found',
+    klass: /ModelNotFoundException/,
+    causes: ['`findOrFail`/route model binding found no record'],
+    fixes: ['Return a 404 for missing records', 'Check soft-deleted models and scopes'],
+  },
+  {
+    id: 'laravel-query',
+    klass: /QueryException/,
+    causes: ['SQL error: constraint violation, missing column or bad query'],
+    fixes: ['Run pending migrations', 'Inspect the SQL and bindings in the message'],
+  },
+  {
+    id: 'laravel-validation',
+    klass: /ValidationException/,
+    causes: ['Request failed validation rules and the exception was reported'],
+    fixes: ['Add `ValidationException` to the dont-report list if it is expected'],
+  },
+  // ── Phoenix / Elixir ──
+  {
+    id: 'phoenix-no-route',
+    klass: /Phoenix\.Router\.NoRouteError/,
+    causes: ['Request for a path with no matching route'],
+    fixes: ['Check `mix phx.routes`', 'Ignore bot traffic or add redirects'],
+  },
+  {
+    id: 'ecto-no-results',
+    klass: /Ecto\.NoResultsError/,
+    causes: ['`Repo.get!`/`Repo.one!` found no record'],
+    fixes: ['Use `Repo.get` and handle `nil`', 'Return a 404 via a fallback controller'],
+  },
+  {
+    id: 'elixir-function-clause',
+    klass: /FunctionClauseError|CaseClauseError|MatchError/,
+    causes: ['No function clause or pattern matched the given value', 'Unexpected shape of data (e.g., `nil` or error tuple)'],
+    fixes: ['Add a clause for the unexpected value', 'Handle `{:error, _}` tuples explicitly'],
+  },
+  // ── JavaScript / Node ──
+  {
+    id: 'js-unhandled-rejection',
+    klass: /UnhandledRejection|UnhandledPromiseRejection/,
+    causes: ['A promise rejected with no `.catch()` or surrounding `try/await`', 'Fire-and-forget async call'],
+    fixes: ['Await the promise inside `try/catch`', 'Add `.catch()` to detached promises'],
+  },
+  {
+    id: 'js-type-error',
+    language: 'javascript',
+    klass: /^TypeError$/,
+    causes: ['Property read on `undefined` or `null`', 'Calling something that is not a function', 'API response shape changed'],
+    fixes: ['Use optional chaining (`obj?.prop`) and defaults', 'Validate API responses before use'],
+  },
+  {
+    id: 'js-reference-error',
+    klass: /^ReferenceError$/,
+    causes: ['Variable used before declaration or not defined', 'Missing import or browser-only global used on the server'],
+    fixes: ['Check imports and variable scope', 'Guard globals like `window` in SSR code'],
+  },
+  {
+    id: 'js-range-error',
+    language: 'javascript',
+    klass: /^RangeError$/,
+    causes: ['Maximum call stack exceeded (unbounded recursion)', 'Invalid array length or date/number range'],
+    fixes: ['Look for recursion without a base case', 'Validate numeric input'],
+  },
+  {
+    id: 'js-syntax-error',
+    language: 'javascript',
+    klass: /^SyntaxError$/,
+    causes: ['`JSON.parse` on a non-JSON body (HTML error page, empty response)', 'Bundle served with unsupported syntax'],
+    fixes: ['Check the response content type before parsing', 'Verify build targets'],
+  },
+  // ── Go ──
+  {
+    id: 'go-nil-pointer',
+    message: /nil pointer dereference|invalid memory address/,
+    causes: ['Pointer, map or interface used while nil', 'Error ignored and the zero value used'],
+    fixes: ['Check returned errors before using values', 'Initialize maps and structs before use'],
+  },
+  {
+    id: 'go-index-out-of-range',
+    message: /index out of range|slice bounds out of range/,
+    causes: ['Slice indexed past its length'],
+    fixes: ['Check `len()` before indexing', 'Handle empty slices explicitly'],
+  },
+  {
+    id: 'go-concurrent-map',
+    message: /concurrent map (writes|read and map write)/,
+    causes: ['Map accessed from multiple goroutines without synchronization'],
+    fixes: ['Protect the map with `sync.Mutex`/`sync.RWMutex` or use `sync.Map`', 'Run tests with `-race`'],
+  },
+  {
+    id: 'go-panic',
+    language: 'go',
+    klass: /panic|runtime\.Error/i,
+    causes: ['Unrecovered panic in a goroutine'],
+    fixes: ['Add `recover()` middleware for request handlers', 'Return errors instead of panicking'],
+  },
+  // ── Cross-language ──
+  {
+    id: 'timeout',
+    klass: /Timeout|TimedOut|DeadlineExceeded/i,
+    causes: ['Slow downstream service or query', 'Timeout too tight for peak load'],
+    fixes: ['Find the slow dependency in the backtrace', 'Add retries with backoff and review timeout values'],
+  },
+  {
+    id: 'timeout-message',
+    message: /timed? ?out|deadline exceeded|ETIMEDOUT/i,
+    causes: ['Slow downstream service or query', 'Timeout too tight for peak load'],
+    fixes: ['Find the slow dependency in the backtrace', 'Add retries with backoff and review timeout values'],
+  },
+  {
+    id: 'database',
+    message: /deadlock|could not obtain lock|lock wait timeout|too many connections|connection pool|PG::|Mysql2::|OperationalError/i,
+    causes: ['Database contention or connection exhaustion'],
+    fixes: ['Check for long transactions and lock ordering', 'Size the connection pool for the worker count'],
+  },
+  {
+    id: 'network',
+    message: /ECONNREFUSED|ECONNRESET|EHOSTUNREACH|ENOTFOUND|EAI_AGAIN|connection refused|connection reset|broken pipe|SSL|certificate/i,
+    causes: ['Downstream service unreachable, restarting or rejecting connections', 'DNS or TLS problem'],
+    fixes: ['Check the health of the downstream service at the time of the error', 'Retry idempotent calls with backoff'],
+  },
+];
+
+/**
+ * Detects the language of a backtrace from file extensions, preferring the
+ * most common one among frames.
+ */
+export function detectLanguage(backtrace: BacktraceFrame[] = []): string | undefined {
+  const tally = new Map<string, number>();
+  for (const frame of backtrace) {
+    const ext = /\.([a-z]+)(?::\d+)?$/i.exec(frame.file || '')?.[1]?.toLowerCase();
+    const language = ext && Object.keys(LANGUAGE_EXTENSIONS).find((l) => LANGUAGE_EXTENSIONS[l].includes(ext));
+    if (language) tally.set(language, (tally.get(language) || 0) + 1);
+  }
+  return Array.from(tally.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function parseRuleFile(path: string): ErrorRule[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Failed to load error rules from ${path}: ${error.message}`);
+  }
+  const entries = Array.isArray(raw) ? raw : raw?.rules;
+  if (!Array.isArray(entries)) throw new Error(`Error rules file ${path} must contain an array of rules`);
+  return entries.map((entry: any, i: number) => {
+    if (!entry.klass && !entry.message) throw new Error(`Rule ${entry.id || i} in ${path} needs "klass" or "message"`);
+    return {
+      id: String(entry.id || `${path}#${i}`),
+      language: entry.language,
+      klass: entry.klass ? new RegExp(entry.klass) : undefined,
+      message: entry.message ? new RegExp(entry.message, 'i') : undefined,
+      causes: entry.causes || [],
+      fixes: entry.fixes || [],
+    };
+  });
+}
+
+/**
+ * Matches a fault against language-aware rules. User rules (from
+ * HONEYBADGER_ERROR_RULES) are checked before the built-in ones; every
+ * matching rule contributes causes and fixes.
+ */
+export class ErrorClassifier {
+  constructor(private rules: ErrorRule[] = BUILTIN_ERROR_RULES) {}
+
+  /**
+   * HONEYBADGER_ERROR_RULES takes comma-separated paths to JSON files holding
+   * `[{ "id", "language", "klass", "message", "causes": [], "fixes": [] }]`,
+   * where klass and message are regexes.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ErrorClassifier {
+    const files = (env.HONEYBADGER_ERROR_RULES || '').split(',').map((f) => f.trim()).filter(Boolean);
+    return new ErrorClassifier([...files.flatMap(parseRuleFile), ...BUILTIN_ERROR_RULES]);
+  }
+
+  classify(fault: { klass: string; message?: string }, backtrace?: BacktraceFrame[]): ErrorClassification {
+    const language = detectLanguage(backtrace);
+    const matched = this.rules.filter((rule) =>
+      (!rule.language || rule.language === language)
+      && (!rule.klass || rule.klass.test(fault.klass || ''))
+      && (!rule.message || rule.message.test(fault.message || ''))
+    );
+    const unique = (values: string[]) => Array.from(new Set(values));
+    return {
+      language,
+      rules: matched.map((rule) => rule.id),
+      causes: matched.length > 0 ? unique(matched.flatMap((rule) => rule.causes)) : GENERIC_CAUSES,
+      fixes: unique(matched.flatMap((rule) => rule.fixes)),
+    };
+  }
+}
@@ -0,0 +1,571 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface FakeApiOptions {
+  host: string;
+  port: number;
+  // Seed for the generated notice timestamps; same seed, same data
+  seed?: number;
+}
+
+interface FakeFaultSeed {
+  klass: string;
+  message: string;
+  environment: string;
+  notices: number;
+  // Occurrence pattern over the last week
+  shape: 'steady' | 'spike' | 'regression' | 'new';
+  resolved?: boolean;
+  tags?: string[];
+  backtrace: Array<{ file: string; number: string; method: string; source?: Record<string, string> }>;
+  params: Record<string, any>;
+  url: string;
+  component: string;
+  action: string;
+}
+
+interface FakeProjectSeed {
+  id: number;
+  name: string;
+  language: string;
+  faults: FakeFaultSeed[];
+}
+
+// Three small apps in different languages so analysis, clustering, trends and
+// redaction all have something to work on. Params and context carry fake PII.
+const SEED_PROJECTS: FakeProjectSeed[] = [
+  {
+    id: 1001,
+    name: 'Storefront',
+    language: 'ruby',
+    faults: [
+      {
+        klass: 'NoMethodError',
+        message: "undefined method `name' for nil:NilClass",
+        environment: 'production',
+        notices: 120,
+        shape: 'spike',
+        tags: ['checkout'],
+        backtrace: [
+          { file: '[GEM_ROOT]/gems/activesupport-7.1.3/lib/active_support/core_ext/object/try.rb', number: '15', method: 'public_send' },
+          {
+            file: '[PROJECT_ROOT]/app/models/user.rb',
+            number: '42',
+            method: 'display_name',
+            source: { '41': '  def display_name', '42': '    profile.name.presence || email', '43': '  end' },
+          },
+          { file: '[PROJECT_ROOT]/app/controllers/orders_controller.rb', number: '18', method: 'show' },
+          { file: '[GEM_ROOT]/gems/actionpack-7.1.3/lib/action_controller/metal/basic_implicit_render.rb', number: '6', method: 'send_action' },
+        ],
+        params: { id: '4821', password: 'hunter2', card_number: '4111 1111 1111 1111' },
+        url: 'https://shop.example.com/orders/4821',
+        component: 'orders',
+        action: 'show',
+      },
+      {
+        klass: 'NoMethodError',
+        message: "undefined method `name' for nil:NilClass",
+        environment: 'staging',
+        notices: 14,
+        shape: 'steady',
+        backtrace: [
+          { file: '[PROJECT_ROOT]/app/models/user.rb', number: '42', method: 'display_name' },
+          { file: '[PROJECT_ROOT]/app/controllers/orders_controller.rb', number: '18', method: 'show' },
+        ],
+        params: { id: '17' },
+        url: 'https://staging.shop.example.com/orders/17',
+        component: 'orders',
+        action: 'show',
+      },
+      {
+        klass: 'ActiveRecord::RecordNotFound',
+        message: "Couldn't find Order with 'id'=99120",
+        environment: 'production',
+        notices: 45,
+        shape: 'regression',
+        backtrace: [
+          { file: '[GEM_ROOT]/gems/activerecord-7.1.3/lib/active_record/core.rb', number: '253', method: 'find' },
+          { file: '[PROJECT_ROOT]/app/controllers/orders_controller.rb', number: '9', method: 'set_order' },
+        ],
+        params: { id: '99120' },
+        url: 'https://shop.example.com/orders/99120',
+        component: 'orders',
+        action: 'show',
+      },
+      {
+        klass: 'Net::ReadTimeout',
+        message: 'Net::ReadTimeout with #<TCPSocket:(closed)>',
+        environment: 'production',
+        notices: 30,
+        shape: 'steady',
+        resolved: true,
+        backtrace: [
+          { file: '/usr/local/lib/ruby/3.3.0/net/protocol.rb', number: '229', method: 'rbuf_fill' },
+          { file: '[PROJECT_ROOT]/app/services/shipping_rates.rb', number: '27', method: 'fetch' },
+        ],
+        params: { zip: '94107' },
+        url: 'https://shop.example.com/cart/shipping',
+        component: 'cart',
+        action: 'shipping',
+      },
+    ],
+  },
+  {
+    id: 1002,
+    name: 'Dashboard',
+    language: 'javascript',
+    faults: [
+      {
+        klass: 'TypeError',
+        message: "Cannot read properties of undefined (reading 'total')",
+        environment: 'production',
+        notices: 80,
+        shape: 'new',
+        backtrace: [
+          {
+            file: '[PROJECT_ROOT]/src/reports/revenue.js',
+            number: '58',
+            method: 'summarize',
+            source: { '57': 'function summarize(report) {', '58': '  return report.totals.total;', '59': '}' },
+          },
+          { file: '[PROJECT_ROOT]/node_modules/express/lib/router/layer.js', number: '95', method: 'handle' },
+          { file: 'node:internal/process/task_queues', number: '95', method: 'processTicksAndRejections' },
+        ],
+        params: { range: '30d', session_id: 'c2f1a9e7' },
+        url: 'https://dash.example.com/reports/revenue',
+        component: 'reports',
+        action: 'revenue',
+      },
+      {
+        klass: 'Error',
+        message: 'connect ECONNREFUSED 10.0.3.12:5432',
+        environment: 'production',
+        notices: 12,
+        shape: 'spike',
+        backtrace: [
+          { file: '[PROJECT_ROOT]/node_modules/pg/lib/client.js', number: '132', method: 'Client._connect' },
+          { file: '[PROJECT_ROOT]/src/db.js', number: '14', method: 'connect' },
+        ],
+        params: {},
+        url: 'https://dash.example.com/health',
+        component: 'health',
+        action: 'check',
+      },
+    ],
+  },
+  {
+    id: 1003,
+    name: 'Billing',
+    language: 'python',
+    faults: [
+      {
+        klass: 'KeyError',
+        message: "'customer_id'",
+        environment: 'production',
+        notices: 25,
+        shape: 'steady',
+        backtrace: [
+          {
+            file: '[PROJECT_ROOT]/billing/webhooks.py',
+            number: '31',
+            method: 'handle_invoice',
+            source: { '30': 'def handle_invoice(payload):', '31': "    customer = payload['customer_id']" },
+          },
+          { file: '/usr/local/lib/python3.12/site-packages/django/core/handlers/base.py', number: '197', method: '_get_response' },
+        ],
+        params: { event: 'invoice.paid', api_key: 'sk_test_fake' },
+        url: 'https://billing.example.com/webhooks/stripe',
+        component: 'webhooks',
+        action: 'handle_invoice',
+      },
+    ],
+  },
+];
+
+const USERS = [
+  { id: 1, name: 'Ada Example', email: 'ada@example.com' },
+  { id: 2, name: 'Grace Example', email: 'grace@example.com' },
+];
+
+// Deterministic PRNG so a given seed always produces the same notices
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function occurrenceTimes(shape: FakeFaultSeed['shape'], count: number, now: number, random: () => number): number[] {
+  const week = 168 * HOUR_MS;
+  return Array.from({ length: count }, (_, i) => {
+    const r = random();
+    switch (shape) {
+      // Most occurrences in a six-hour burst two days ago
+      case 'spike':
+        return i % 4 === 0 ? now - r * week : now - 48 * HOUR_MS - r * 6 * HOUR_MS;
+      // Early in the week, four silent days, then back in the last day
+      case 'regression':
+        return i % 2 === 0 ? now - week + r * 48 * HOUR_MS : now - r * 20 * HOUR_MS;
+      case 'new':
+        return now - r * 30 * HOUR_MS;
+      default:
+        return now - r * week;
+    }
+  }).sort((a, b) => b - a);
+}
+
+function buildStore(seed: number, now: number) {
+  const random = mulberry32(seed);
+  const projects: any[] = [];
+  const faults: any[] = [];
+  const notices = new Map<string, any[]>();
+  const deploys: any[] = [];
+  let faultId = 5000;
+  let deployId = 700;
+
+  for (const project of SEED_PROJECTS) {
+    projects.push({
+      id: project.id,
+      name: project.name,
+      token: `fake-project-token-${project.id}`,
+      active: true,
+      created_at: new Date(now - 400 * 24 * HOUR_MS).toISOString(),
+      environments: Array.from(new Set(project.faults.map((f) => f.environment))).map((name) => ({ name })),
+      owner: { id: 'fake-account', name: 'Example Co' },
+      language: project.language,
+      fault_count: project.faults.length,
+      unresolved_fault_count: project.faults.filter((f) => !f.resolved).length,
+    });
+
+    for (const seedFault of project.faults) {
+      const id = ++faultId;
+      const times = occurrenceTimes(seedFault.shape, seedFault.notices, now, random);
+      faults.push({
+        id,
+        project_id: project.id,
+        klass: seedFault.klass,
+        message: seedFault.message,
+        component: seedFault.component,
+        action: seedFault.action,
+        environment: seedFault.environment,
+        resolved: Boolean(seedFault.resolved),
+        ignored: false,
+        created_at: new Date(times[times.length - 1] - HOUR_MS).toISOString(),
+        last_notice_at: new Date(times[0]).toISOString(),
+        notices_count: seedFault.notices,
+        comments_count: 0,
+        tags: seedFault.tags || [],
+        assignee: null,
+        url: `https://app.honeybadger.io/projects/${project.id}/faults/${id}`,
+      });
+      notices.set(String(id), times.map((time, i) => {
+        const user = USERS[i % USERS.length];
+        return {
+          id: `${id}-${String(i).padStart(4, '0')}-fake`,
+          fault_id: id,
+          message: `${seedFault.klass}: ${seedFault.message}`,
+          created_at: new Date(time).toISOString(),
+          environment: { environment_name: seedFault.environment, hostname: `web-${(i % 3) + 1}` },
+          environment_name: seedFault.environment,
+          url: seedFault.url,
+          backtrace: seedFault.backtrace,
+          component: seedFault.component,
+          action: seedFault.action,
+          params: seedFault.params,
+          context: { user_id: user.id, user_email: user.email },
+          session: {},
+          cgi_data: { HTTP_COOKIE: `_session=fake${i}`, REMOTE_ADDR: `203.0.113.${i % 250}` },
+        };
+      }));
+    }
+
+    for (const hoursAgo of [100, 30, 6]) {
+      deploys.push({
+        id: ++deployId,
+        project_id: project.id,
+        environment: 'production',
+        revision: `fake${deployId.toString(16)}`,
+        repository: `example/${project.name.toLowerCase()}`,
+        local_username: 'ada',
+        created_at: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+      });
+    }
+  }
+  return { projects, faults, notices, deploys };
+}
+
+/**
+ * A local stand-in for the Honeybadger v2 Data API with seeded projects, faults,
+ * notices and deploys. Point HONEYBADGER_BASE_URL at it for demos and prompt
+ * testing; any API key is accepted. Fault and project writes change the
+ * in-memory data until the process exits.
+ */
+export async function startFakeApi(options: FakeApiOptions) {
+  const now = Date.now();
+  const store = buildStore(options.seed ?? 1, now);
+  const base = `http://${options.host}:${options.port}`;
+
+  const send = (res: ServerResponse, status: number, body: any) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  };
+
+  const readBody = (req: IncomingMessage): Promise<any> =>
+    new Promise((resolve, reject) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+        if (raw.length > MAX_BODY_BYTES) reject(new Error('Request body too large'));
+      });
+      req.on('end', () => {
+        try {
+          resolve(raw ? JSON.parse(raw) : {});
+        } catch {
+          reject(new Error('Invalid JSON body'));
+        }
+      });
+      req.on('error', reject);
+    });
+
+  // Honeybadger-style page: { results, links: { self, next } }
+  const paginate = (url: URL, items: any[], defaultPerPage = 25) => {
+    const perPage = Math.min(Number(url.searchParams.get('limit') || url.searchParams.get('per_page')) || defaultPerPage, 100);
+    const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+    const results = items.slice((page - 1) * perPage, page * perPage);
+    const next = new URL(url.pathname + url.search, base);
+    next.searchParams.set('page', String(page + 1));
+    return {
+      results,
+      total_count: items.length,
+      links: {
+        self: `${base}${url.pathname}${url.search}`,
+        ...(page * perPage < items.length ? { next: next.toString() } : {}),
+      },
+    };
+  };
+
+  const inRange = (value: string, after?: string | null, before?: string | null) =>
+    (!after || value >= new Date(after).toISOString()) && (!before || value <= new Date(before).toISOString());
+
+  // Supports the search terms the tools and prompts use: environment:"x",
+  // is:resolved / -is:resolved, is:ignored / -is:ignored and free text
+  const matchesQuery = (fault: any, q: string) => {
+    let text = q;
+    const conditions: Array<(f: any) => boolean> = [];
+    text = text.replace(/(-?)is:(resolved|ignored)/g, (_, negate, field) => {
+      conditions.push((f) => Boolean(f[field]) !== Boolean(negate));
+      return '';
+    });
+    text = text.replace(/environment:"?([\w-]+)"?/g, (_, env) => {
+      conditions.push((f) => f.environment === env);
+      return '';
+    });
+    const words = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return conditions.every((c) => c(fault))
+      && words.every((w) => `${fault.klass} ${fault.message}`.toLowerCase().includes(w));
+  };
+
+  const findProject = (id: string) => store.projects.find((p) => String(p.id) === id);
+  const projectFaults = (id: string) => store.faults.filter((f) => String(f.project_id) === id);
+
+  const listFaults = (url: URL, projectId: string) => {
+    const q = url.searchParams.get('q') || '';
+    let faults = projectFaults(projectId)
+      .filter((f) => matchesQuery(f, q))
+      .filter((f) => inRange(f.created_at, url.searchParams.get('created_after')))
+      .filter((f) => inRange(f.last_notice_at, url.searchParams.get('occurred_after'), url.searchParams.get('occurred_before')));
+    faults = url.searchParams.get('order') === 'frequent'
+      ? faults.sort((a, b) => b.notices_count - a.notices_count)
+      : faults.sort((a, b) => b.last_notice_at.localeCompare(a.last_notice_at));
+    return faults;
+  };
+
+  const route = async (req: IncomingMessage, url: URL): Promise<[number, any]> => {
+    const method = req.method || 'GET';
+    const path = url.pathname.replace(/^\/v2/, '').replace(/\/$/, '');
+    const parts = path.split('/').filter(Boolean);
+    const notFound: [number, any] = [404, { error: 'Not found' }];
+
+    if (path === '/accounts') return [200, { results: [{ id: 'fake-account', name: 'Example Co' }] }];
+    if (/^\/accounts\/[^/]+\/users$/.test(path)) return [200, { results: USERS }];
+    if (/^\/accounts\/[^/]+\/projects$/.test(path)) return [200, paginate(url, store.projects)];
+    if (path === '/teams') return [200, { results: [{ id: 1, name: 'Core', owner: { id: 'fake-account' } }] }];
+    if (/^\/teams\/\d+\/team_members$/.test(path)) return [200, { results: USERS.map((u) => ({ ...u, admin: u.id === 1 })) }];
+
+    if (path === '/projects') {
+      if (method === 'POST') {
+        const body = await readBody(req);
+        const project = { id: Math.max(...store.projects.map((p) => p.id)) + 1, token: 'fake-project-token-new', ...(body.project || body) };
+        store.projects.push(project);
+        return [201, project];
+      }
+      return [200, paginate(url, store.projects)];
+    }
+    if (parts[0] !== 'projects') return notFound;
+
+    if (path === '/projects/occurrences' || /^\/projects\/\d+\/occurrences$/.test(path)) {
+      const hours = url.searchParams.get('period') === 'day' ? 24 : 1;
+      const bucketMs = hours * HOUR_MS;
+      const counts = new Map<number, number>();
+      const ids = new Set((parts[1] === 'occurrences' ? store.faults : projectFaults(parts[1])).map((f) => String(f.id)));
+      for (const [faultId, list] of store.notices) {
+        if (!ids.has(faultId)) continue;
+        for (const n of list) {
+          const bucket = Math.floor(new Date(n.created_at).getTime() / bucketMs) * bucketMs / 1000;
+          counts.set(bucket, (counts.get(bucket) || 0) + 1);
+        }
+      }
+      return [200, Array.from(counts.entries()).sort(([a], [b]) => a - b)];
+    }
+
+    const project = findProject(parts[1]);
+    if (!project) return notFound;
+    const pid = parts[1];
+
+    if (parts.length === 2) {
+      if (method === 'PUT') {
+        const body = await readBody(req);
+        Object.assign(project, body.project || body);
+        return [200, project];
+      }
+      if (method === 'DELETE') {
+        store.projects.splice(store.projects.indexOf(project), 1);
+        return [204, {}];
+      }
+      return [200, project];
+    }
+
+    switch (parts[2]) {
+      case 'faults': {
+        if (parts.length === 3) return [200, paginate(url, listFaults(url, pid))];
+        if (parts[3] === 'summary') {
+          const faults = listFaults(url, pid);
+          const byEnvironment: Record<string, number> = {};
+          for (const f of faults) byEnvironment[f.environment] = (byEnvironment[f.environment] || 0) + 1;
+          return [200, {
+            total: faults.length,
+            environments: Object.entries(byEnvironment).map(([environment, count]) => ({ environment, count })),
+            resolved: faults.filter((f) => f.resolved).length,
+            ignored: faults.filter((f) => f.ignored).length,
+          }];
+        }
+        const fault = store.faults.find((f) => String(f.id) === parts[3] && String(f.project_id) === pid);
+        if (!fault) return notFound;
+        if (parts.length === 4) {
+          if (method === 'PUT') {
+            const update = (await readBody(req)).fault || {};
+            if ('assignee_id' in update) {
+              fault.assignee = USERS.find((u) => u.id === Number(update.assignee_id)) || null;
+              delete update.assignee_id;
+            }
+            Object.assign(fault, update);
+            return [200, fault];
+          }
+          if (method === 'DELETE') {
+            store.faults.splice(store.faults.indexOf(fault), 1);
+            return [204, {}];
+          }
+          return [200, fault];
+        }
+        const notices = store.notices.get(String(fault.id)) || [];
+        if (parts[4] === 'notices') {
+          const filtered = notices.filter((n) =>
+            inRange(n.created_at, url.searchParams.get('created_after'), url.searchParams.get('created_before')));
+          return [200, paginate(url, filtered)];
+        }
+        if (parts[4] === 'affected_users') {
+          const counts = new Map<string, number>();
+          for (const n of notices) counts.set(n.context.user_email, (counts.get(n.context.user_email) || 0) + 1);
+          return [200, Array.from(counts.entries()).map(([user, count]) => ({ user, count }))];
+        }
+        return notFound;
+      }
+      case 'deploys': {
+        const deploys = store.deploys
+          .filter((d) => String(d.project_id) === pid)
+          .filter((d) => !url.searchParams.get('environment') || d.environment === url.searchParams.get('environment'))
+          .filter((d) => inRange(d.created_at, url.searchParams.get('created_after'), url.searchParams.get('created_before')))
+          .sort((a, b) => b.created_at.localeCompare(a.created_at));
+        if (parts.length === 3) return [200, paginate(url, deploys)];
+        const deploy = deploys.find((d) => String(d.id) === parts[3]);
+        return deploy ? [200, deploy] : notFound;
+      }
+      case 'reports': {
+        const faults = projectFaults(pid);
+        if (parts[3] === 'notices_by_class') {
+          const byClass = new Map<string, number>();
+          for (const f of faults) byClass.set(f.klass, (byClass.get(f.klass) || 0) + f.notices_count);
+          return [200, Array.from(byClass.entries()).sort((a, b) => b[1] - a[1])];
+        }
+        if (parts[3] === 'notices_by_location') {
+          return [200, faults.map((f) => [`${f.component}#${f.action}`, f.notices_count])];
+        }
+        if (parts[3] === 'notices_by_user') {
+          const total = faults.reduce((sum, f) => sum + f.notices_count, 0);
+          return [200, USERS.map((u) => [u.email, Math.round(total / USERS.length)])];
+        }
+        if (parts[3] === 'notices_per_day') {
+          return [200, [[new Date(now).toISOString().slice(0, 10), faults.reduce((sum, f) => sum + f.notices_count, 0)]]];
+        }
+        return notFound;
+      }
+      case 'insights': {
+        const { query = '' } = await readBody(req);
+        // Field sampling (`fields @ts, @preview`) gets recent notices as events
+        if (query.includes('@preview')) {
+          const limit = Number(/limit\s+(\d+)/.exec(query)?.[1]) || 25;
+          const events = projectFaults(pid)
+            .flatMap((f) => (store.notices.get(String(f.id)) || []).map((n) => ({
+              '@ts': n.created_at,
+              '@preview': {
+                event_type: 'notice',
+                fault_id: f.id,
+                class: f.klass,
+                message: f.message,
+                environment: f.environment,
+                component: f.component,
+                action: f.action,
+                context: n.context,
+              },
+            })))
+            .sort((a, b) => b['@ts'].localeCompare(a['@ts']))
+            .slice(0, limit);
+          return [200, { results: events, meta: { fields: ['@ts', '@preview'], rows: events.length } }];
+        }
+        // Anything else gets a canned result: notice counts by class
+        return [200, {
+          results: projectFaults(pid).map((f) => ({ 'error.class': f.klass, count: f.notices_count })),
+          meta: { fields: ['error.class', 'count'], note: 'Fake API: other queries return notice counts by class' },
+        }];
+      }
+      case 'check_ins':
+      case 'sites':
+      case 'integrations':
+        if (method !== 'GET') return [501, { error: 'Not supported by the fake API' }];
+        return parts.length === 3 ? [200, { results: [], links: {} }] : notFound;
+      default:
+        return notFound;
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      if (!req.headers.authorization) return send(res, 401, { error: 'Missing API key' });
+      const url = new URL(req.url || '/', base);
+      if (!url.pathname.startsWith('/v2/')) return send(res, 404, { error: 'Not found' });
+      const [status, body] = await route(req, url);
+      if (status === 204) return res.writeHead(204).end();
+      send(res, status, body);
+    } catch (error: any) {
+      send(res, 500, { error: error.message });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port, options.host, resolve));
+  console.error(`Fake Honeybadger API listening on ${base} (set HONEYBADGER_BASE_URL=${base})`);
+  return server;
+}
@@ -0,0 +1,209 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Bearer token → Honeybadger API key. When empty, the bearer token itself is
+  // used as the Honeybadger API key (each client brings its own personal token).
+  tokens: Map<string, string>;
+  // `caller` is a short hash of the bearer token, so audit entries can tell
+  // callers apart without storing their tokens
+  createSession: (apiKey: string, caller: string) => HttpSession;
+  version: string;
+}
+
+export interface HttpSession {
+  connect(transport: Transport): Promise<void>;
+  close(): Promise<void>;
+}
+
+interface ActiveSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  session: HttpSession;
+  tokenHash: string;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Parses HONEYBADGER_HTTP_TOKENS: comma-separated `bearer=honeybadger_api_key`
+ * pairs. A bare `bearer` entry maps to the fallback key (HONEYBADGER_API_KEY).
+ */
+export function parseTokenMap(value: string | undefined, fallbackApiKey: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (value || '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf('=');
+    const bearer = separator === -1 ? entry : entry.slice(0, separator);
+    const apiKey = separator === -1 ? fallbackApiKey : entry.slice(separator + 1);
+    if (!apiKey) {
+      throw new Error(`HONEYBADGER_HTTP_TOKENS entry "${bearer.slice(0, 4)}…" has no API key and HONEYBADGER_API_KEY is not set`);
+    }
+    tokens.set(bearer, apiKey);
+  }
+  return tokens;
+}
+
+export async function startHttpServer(options: HttpServerOptions) {
+  const sessions = new Map<string, ActiveSession>();
+
+  const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+  const sendJson = (res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+  };
+
+  const sendRpcError = (res: ServerResponse, status: number, message: string, headers?: Record<string, string>) => {
+    sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+  };
+
+  const authenticate = (req: IncomingMessage): { apiKey: string; tokenHash: string } | undefined => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match) return undefined;
+    const token = match[1].trim();
+    const apiKey = options.tokens.size > 0 ? options.tokens.get(token) : token;
+    return apiKey ? { apiKey, tokenHash: hashToken(token) } : undefined;
+  };
+
+  const readBody = (req: IncomingMessage): Promise<any> =>
+    new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error('Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        try {
+          resolve(raw ? JSON.parse(raw) : undefined);
+        } catch {
+          reject(new Error('Invalid JSON body'));
+        }
+      });
+      req.on('error', reject);
+    });
+
+  const closeSession = async (sessionId: string) => {
+    const active = sessions.get(sessionId);
+    if (!active) return;
+    sessions.delete(sessionId);
+    await active.session.close().catch(() => undefined);
+  };
+
+  // Sessions are bound to the bearer token that created them so one teammate
+  // cannot drive another teammate's session by guessing its ID.
+  const lookupSession = (sessionId: string | undefined, tokenHash: string) => {
+    if (!sessionId) return undefined;
+    const active = sessions.get(sessionId);
+    return active && active.tokenHash === tokenHash ? active : undefined;
+  };
+
+  // ── Streamable HTTP (/mcp) ────────────────────────────────────────────────
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse, auth: { apiKey: string; tokenHash: string }) => {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+
+    const existing = lookupSession(sessionId, auth.tokenHash);
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        return sendRpcError(res, 400, 'Session was created with the SSE transport');
+      }
+      return existing.transport.handleRequest(req, res, body);
+    }
+
+    if (sessionId) {
+      return sendRpcError(res, 404, 'Session not found');
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return sendRpcError(res, 400, 'No valid session ID provided');
+    }
+
+    const session = options.createSession(auth.apiKey, auth.tokenHash.slice(0, 12));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, session, tokenHash: auth.tokenHash });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+    await session.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // ── Legacy SSE (/sse + /messages) ─────────────────────────────────────────
+
+  const handleSse = async (res: ServerResponse, auth: { apiKey: string; tokenHash: string }) => {
+    const session = options.createSession(auth.apiKey, auth.tokenHash.slice(0, 12));
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, session, tokenHash: auth.tokenHash });
+    res.on('close', () => void closeSession(transport.sessionId));
+    await session.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL, tokenHash: string) => {
+    const active = lookupSession(url.searchParams.get('sessionId') || undefined, tokenHash);
+    if (!active || !(active.transport instanceof SSEServerTransport)) {
+      return sendRpcError(res, 404, 'Session not found');
+    }
+    const body = await readBody(req);
+    await active.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        return sendJson(res, 200, { status: 'ok', version: options.version, sessions: sessions.size });
+      }
+
+      const auth = authenticate(req);
+      if (!auth) {
+        return sendRpcError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+      }
+
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        return await handleMcp(req, res, auth);
+      }
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        return await handleSse(res, auth);
+      }
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        return await handleSseMessage(req, res, url, auth.tokenHash);
+      }
+      sendJson(res, 404, { error: 'Not found' });
+    } catch (error: any) {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) sendRpcError(res, 500, error.message || 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const shutdown = async () => {
+    await Promise.all(Array.from(sessions.keys()).map(closeSession));
+    httpServer.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  const authMode = options.tokens.size > 0 ? `${options.tokens.size} configured token(s)` : 'bearer passthrough';
+  console.error(`Honeybadger MCP server listening on http://${options.host}:${options.port}/mcp (${authMode})`);
+}
@@ -1,15 +1,154 @@
 #!/usr/bin/env node
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { McpServer, RegisteredTool, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import axios from 'axios';
 import { z } from 'zod';
+import { ResponseCache } from './cache.js';
+import { Cassette } from './cassette.js';
+import { startFakeApi } from './fake-api.js';
+import { parseTokenMap, startHttpServer } from './http.js';
+import {
+  DEFAULT_MAX_FRAMES,
+  DEFAULT_RESPONSE_BUDGET,
+  fitItemsToBudget,
+  OutputOptions,
+  renderCsv,
+  renderTable,
+  shapeItem,
+  truncateText,
+} from './output.js';
+import { FrameClassifier, formatNormalizedFrames } from './backtrace.js';
+import { BUILTIN_FIELDS, checkBadgerQL, describeEvents, QueryCheck, toInsightsTable } from './badgerql.js';
+import { ClusterInput, clusterFaults } from './clustering.js';
+import { ErrorClassifier } from './error-rules.js';
+import { diffNotices } from './notice-diff.js';
+import { decodeCursor, encodeCursor, nextPageRequest, PageCursor, PageRequest } from './pagination.js';
+import { DRY_RUN_TTL_MS, ToolPolicy } from './policy.js';
+import { AuditLog, type AuditedRequest } from './audit-log.js';
+import { ENV_PROFILE, Profile, ProfileRegistry } from './profiles.js';
+import {
+  buildRootCausePrompt,
+  formatRootCause,
+  parseRootCauseResponse,
+  ROOT_CAUSE_SYSTEM_PROMPT,
+  RootCauseHypothesis,
+} from './root-cause.js';
+import { formatResolvedFrames, ResolvedFrame, SourceResolver } from './source.js';
+import { analyzeTrend, bucketHoursFor, FaultTrend, formatTrend, TrendDeploy } from './trends.js';
+import { Redactor } from './redaction.js';
+import { SavedQueryLibrary } from './saved-queries.js';
+
+const SERVER_VERSION = '0.1.0';
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_RETRY_AFTER_MS = 30000;
+
+// Pages scanned when looking up a notice by ID or filtering notices by text
+const NOTICE_SEARCH_MAX_PAGES = 10;
+// Pages of deploys scanned per call when filtering by revision
+const DEPLOY_SEARCH_MAX_PAGES = 10;
+
+// Occurrence history used by analyze_honeybadger_issue. There are no per-fault
+// occurrence counts in the API, so the trend pages notices: at most four pages
+// per analysis. A fault with more notices is marked truncated and analyzeTrend
+// starts its series at the oldest notice fetched.
+const ANALYSIS_TREND_HOURS = 168;
+const TREND_MAX_NOTICES = 100;
+// Notice pages list_honeybadger_trending_faults may fetch per call, shared by
+// all candidates, so a ranking costs about as many requests as it has candidates
+const TRENDING_MAX_NOTICE_PAGES = 100;
+const NOTICE_PAGE_SIZE = 25;
+// The client may ask the user to approve a sampling request, so allow for that
+const SAMPLING_TIMEOUT_MS = 120000;
+const SAMPLING_MAX_TOKENS = 2000;
+// A person reads the confirmation form and types the project name
+const ELICITATION_TIMEOUT_MS = 300000;
+// Faults listed in a bulk update confirmation
+const BULK_CONFIRM_PREVIEW = 10;
+
+// Recent events sampled by list_honeybadger_insights_fields to infer fields
+const INSIGHTS_SAMPLE_SIZE = 100;
+
+// Projects listed per profile by list_honeybadger_profiles
+const PROFILE_PROJECTS_MAX = 100;
+
+// Write requests per tool call whose target is snapshotted for the audit log;
+// each snapshot costs one or two extra reads, so bulk updates stop here
+const AUDIT_SNAPSHOT_MAX = 25;
+
+// Shared by read tools so callers can trade detail for context window space
+const outputParams = {
+  detail: z.enum(['summary', 'standard', 'full']).default('standard')
+    .describe('summary: top-level fields only, lists as a compact table; standard: backtraces trimmed; full: raw payload'),
+  fields: z.array(z.string()).optional()
+    .describe('Only return these fields, as dot paths (e.g., ["id", "klass", "assignee.name"])'),
+};
+
+// Fallback for destructive and bulk writes when the client cannot ask the user
+const confirmParam = z.boolean().optional()
+  .describe('Only for clients without elicitation support: set to true after the user approved this exact change');
+
+const insightsFormatParam = z.enum(['json', 'markdown', 'csv'])
+  .describe('json: raw API response; markdown: results as a table; csv: results as CSV');
+
+// String IDs (check-ins, uptime sites, accounts) go into API paths, where "../"
+// would reach other endpoints, so only plain IDs are accepted
+const pathIdParam = z.string().regex(/^[\w-]+$/, 'Must be a plain ID: letters, digits, "_" or "-"');
+
+const maxFramesParam = z.number().min(0).max(500).optional()
+  .describe(`Backtrace frames to keep per notice (default ${DEFAULT_MAX_FRAMES}, or all with detail "full")`);
 
 interface HoneybadgerConfig {
   apiKey: string;
   projectId?: string;
   baseUrl?: string;
+  reportingUrl?: string;
   readOnly: boolean;
+  timeoutMs: number;
+  maxRetries: number;
+  cache: boolean;
+  maxResponseChars: number;
+  profilesFile?: string;
+  profile?: string;
+  // Identifies the HTTP bearer token behind this server instance in audit entries
+  caller?: string;
+}
+
+// Per-profile connection state: each account has its own cache and rate limit
+interface ProfileClient {
+  cache?: ResponseCache;
+  rateLimit: RateLimitState;
+}
+
+// A write request captured instead of sent during a dry run
+interface PlannedRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+// State of the tool call in progress, carried through async calls
+interface ToolCall {
+  tool: string;
+  profile: Profile;
+  // Set for dry runs: write requests are collected here instead of sent
+  plannedWrites?: PlannedRequest[];
+  // Set for audited writes: every write request is recorded here
+  audit?: AuditedRequest[];
+  // How a destructive or bulk write was approved
+  confirmation?: 'elicitation' | 'confirm_argument';
+}
+
+interface RateLimitState {
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
 }
 
 interface HoneybadgerFault {
@@ -56,55 +195,395 @@ interface HoneybadgerNotice {
   cgi_data: {
     [key: string]: any;
   };
+  deploy?: {
+    revision?: string;
+    environment?: string;
+  };
+}
+
+interface HoneybadgerDeploy {
+  id: number;
+  project_id: number;
+  environment: string;
+  revision: string;
+  repository?: string;
+  local_username?: string;
+  created_at: string;
+  url?: string;
+}
+
+interface DeployFaultCorrelation {
+  deploy: HoneybadgerDeploy;
+  window_hours: number;
+  // A window with more faults than this was cut short, so its comparison is partial
+  max_faults: number;
+  before: { from: string; to: string; fault_count: number; notices: number; truncated: boolean };
+  after: { from: string; to: string; fault_count: number; notices: number; truncated: boolean };
+  new_faults: HoneybadgerFault[];
+  reappeared_faults: HoneybadgerFault[];
+  continuing_faults: HoneybadgerFault[];
+  gone_faults: HoneybadgerFault[];
+}
+
+type FaultAction = 'resolve' | 'unresolve' | 'ignore' | 'unignore' | 'assign' | 'unassign' | 'add_tags' | 'remove_tags';
+
+interface FaultWriteResult {
+  fault_id: string | number;
+  success: boolean;
+  error?: string;
 }
 
 class HoneybadgerMCPServer {
   private server: McpServer;
   private config: HoneybadgerConfig;
-
-  constructor() {
+  private profiles: ProfileRegistry;
+  private callScope = new AsyncLocalStorage<ToolCall>();
+  private policy: ToolPolicy;
+  // Dry runs that unlock the matching real call, by tool + arguments
+  private dryRuns = new Map<string, number>();
+  private auditLog?: AuditLog;
+  private clients = new Map<string, ProfileClient>();
+  private redactor: Redactor;
+  private cassette?: Cassette;
+  private sourceResolver?: SourceResolver;
+  private frameClassifier: FrameClassifier;
+  private errorClassifier: ErrorClassifier;
+  private savedQueries: SavedQueryLibrary;
+
+  constructor(overrides: Partial<HoneybadgerConfig> = {}) {
     this.config = {
       apiKey: process.env.HONEYBADGER_API_KEY || '',
       projectId: process.env.HONEYBADGER_PROJECT_ID,
       baseUrl: process.env.HONEYBADGER_BASE_URL || 'https://app.honeybadger.io',
+      reportingUrl: process.env.HONEYBADGER_REPORTING_URL || 'https://api.honeybadger.io',
       readOnly: process.env.HONEYBADGER_READ_ONLY !== 'false',
+      timeoutMs: Number(process.env.HONEYBADGER_TIMEOUT_MS) || 30000,
+      maxRetries: process.env.HONEYBADGER_MAX_RETRIES !== undefined
+        ? Math.max(0, Number(process.env.HONEYBADGER_MAX_RETRIES) || 0)
+        : 3,
+      cache: process.env.HONEYBADGER_CACHE !== 'false',
+      maxResponseChars: Number(process.env.HONEYBADGER_MAX_RESPONSE_CHARS) || DEFAULT_RESPONSE_BUDGET,
+      profilesFile: process.env.HONEYBADGER_PROFILES_FILE,
+      profile: process.env.HONEYBADGER_PROFILE,
+      ...overrides,
     };
+    this.profiles = ProfileRegistry.load({
+      name: ENV_PROFILE,
+      apiKey: this.config.apiKey,
+      apiKeySource: 'HONEYBADGER_API_KEY',
+      baseUrl: this.config.baseUrl || 'https://app.honeybadger.io',
+      reportingUrl: this.config.reportingUrl || 'https://api.honeybadger.io',
+      projectId: this.config.projectId,
+      readOnly: this.config.readOnly,
+    }, this.config.profilesFile, this.config.profile);
+    this.redactor = Redactor.fromEnv();
+    this.cassette = Cassette.fromEnv(this.redactor);
+    this.sourceResolver = SourceResolver.fromEnv();
+    this.frameClassifier = FrameClassifier.fromEnv();
+    this.errorClassifier = ErrorClassifier.fromEnv();
+    this.policy = ToolPolicy.fromEnv();
+    this.auditLog = AuditLog.fromEnv();
+    this.savedQueries = SavedQueryLibrary.fromEnv();
 
     this.server = new McpServer(
       {
         name: 'honeybadger-mcp',
-        version: '0.1.0',
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
+          completions: {},
         },
         instructions: `Honeybadger MCP server for error tracking data access.
 
 Key concepts:
 - project_id: numeric ID — discover via list_honeybadger_projects
+- account_id: discover via list_honeybadger_accounts; user IDs for fault assignment
+  come from list_honeybadger_account_users or list_honeybadger_team_members
 - fault: a unique error pattern (grouped occurrences of the same error)
-- notice: a single error occurrence belonging to a fault
-
-Write operations (create/update/delete project) are only available when
-HONEYBADGER_READ_ONLY=false is set. The server runs in read-only mode by default.
+- notice: a single error occurrence belonging to a fault; compare_honeybadger_notices
+  shows which request fields vary across occurrences
+- deploy: a recorded release; use get_honeybadger_faults_since_deploy after a release
+- get_honeybadger_notice_source shows backtrace frames as code from a local checkout
+  when HONEYBADGER_WORKSPACE_ROOT is configured
+- profile: a named account connection; when several are configured every tool
+  takes a profile argument. list_honeybadger_profiles shows them and their projects
+
+Write operations (project create/update/delete, fault resolve/ignore/assign/tag,
+bulk fault updates, recording deploys, check-in and uptime site management) are
+only available when HONEYBADGER_READ_ONLY=false is set. The server runs in
+read-only mode by default. Every write tool accepts dry_run: true, which returns
+the exact requests it would send without sending them. A policy file may limit
+writes to some projects or environments, cap bulk updates, or require a dry run
+first; policy errors say what is allowed. Deletes and bulk updates ask the user
+to confirm (by elicitation when the client supports it; otherwise pass
+confirm: true only after the user approved). Write calls are recorded in a local
+audit log that query_honeybadger_audit_log searches.
+
+Projects, faults and notices are also exposed as resources:
+honeybadger://projects/{project_id}, honeybadger://projects/{project_id}/faults/{fault_id}
+and honeybadger://projects/{project_id}/faults/{fault_id}/notices/{notice_id}.
+
+Prompts cover common workflows: honeybadger_daily_triage, honeybadger_incident_postmortem,
+honeybadger_post_deploy_review and honeybadger_noisy_fault_cleanup.
+
+Insights queries use BadgerQL, a pipeline language (not SQL): discover fields
+with list_honeybadger_insights_fields, check a query with
+validate_honeybadger_insights_query, and run configured queries by name with
+run_honeybadger_saved_query.
+
+Notice data is redacted before it is returned: sensitive values appear as
+[REDACTED:<rule>] and cannot be recovered through this server.
 
 Timestamps use RFC3339 format, e.g. "2026-02-16T10:00:00Z".
-All IDs (project_id, fault_id) are integers, not strings.`,
+Most IDs (project_id, fault_id, deploy_id) are integers, not strings. Check-in
+IDs and uptime site IDs (UUIDs) are strings.`,
       }
     );
 
     this.setupTools();
+    this.registerResources();
+    this.registerPrompts();
+  }
+
+  // ── Profiles ─────────────────────────────────────────────────────────────────
+
+  // The profile of the tool call in progress, or the default profile outside one
+  private get profile(): Profile {
+    return this.callScope.getStore()?.profile ?? this.profiles.get();
+  }
+
+  private get client(): ProfileClient {
+    let client = this.clients.get(this.profile.name);
+    if (!client) {
+      client = { cache: this.config.cache ? new ResponseCache() : undefined, rateLimit: {} };
+      this.clients.set(this.profile.name, client);
+    }
+    return client;
+  }
+
+  /**
+   * Registers a tool that runs under the profile named by its `profile` argument
+   * (when profiles are configured). The profile's default environment fills an
+   * omitted `environment` argument, and write tools refuse read-only profiles.
+   * Write tools also get a `dry_run` argument and are subject to the tool policy;
+   * tools the policy does not allow are registered disabled.
+   */
+  private registerTool: McpServer['registerTool'] = (toolName: string, config: any, handler: any) => {
+    const register = this.server.registerTool.bind(this.server) as (...args: any[]) => RegisteredTool;
+    const isWrite = config.annotations?.readOnlyHint === false;
+    const destructive = config.annotations?.destructiveHint === true;
+    const inputSchema = { ...config.inputSchema };
+    if (this.config.profilesFile) {
+      inputSchema.profile = z.enum(this.profiles.names() as [string, ...string[]]).optional()
+        .describe(`Honeybadger profile to use (default: ${this.profiles.defaultName}); see list_honeybadger_profiles`);
+    }
+    if (isWrite) {
+      inputSchema.dry_run = z.boolean().default(false)
+        .describe('Return the exact API requests this call would send, without sending them');
+    }
+
+    const tool = register(toolName, { ...config, inputSchema }, async ({ profile: name, dry_run = false, ...args }: any, extra: any) => {
+      const profile = this.profiles.get(name);
+      if (isWrite && profile.readOnly) {
+        return this.toolError(`Profile "${profile.name}" is read-only. Set "read_only": false for it in the profiles file to use ${toolName}.`);
+      }
+      if ('environment' in inputSchema && args.environment === undefined && profile.environment) {
+        args.environment = profile.environment;
+      }
+
+      // confirm is left out so a dry run still counts when the write is then confirmed
+      const dryRunKey = `${profile.name}:${toolName}:${JSON.stringify({ ...args, confirm: undefined })}`;
+      if (isWrite) {
+        const cap = this.policy.maxBulkFaults;
+        if (cap && (args.max_faults ?? 0) > cap) {
+          return this.toolError(`Policy caps bulk updates at ${cap} faults. Call again with max_faults of ${cap} or less.`);
+        }
+        if (!dry_run && this.policy.requiresDryRun(toolName, destructive)) {
+          const dryRunAt = this.dryRuns.get(dryRunKey);
+          if (!dryRunAt || Date.now() - dryRunAt > DRY_RUN_TTL_MS) {
+            return this.toolError(
+              `Policy requires a dry run before ${toolName}. Call it with the same arguments and dry_run: true, `
+              + 'review the requests it would send, then call it again without dry_run.'
+            );
+          }
+        }
+      }
+
+      const call: ToolCall = { tool: toolName, profile, ...(dry_run ? { plannedWrites: [] } : {}) };
+      if (isWrite && !dry_run && this.auditLog) call.audit = [];
+      const startedAt = Date.now();
+      const result = await this.callScope.run(call, () => handler(args, extra));
+      if (call.audit) this.recordAudit(call, args, result, startedAt, extra?.sessionId);
+      // A dry run covers one successful write; a refused or failed one can be retried
+      if (isWrite && !dry_run && !result.isError) this.dryRuns.delete(dryRunKey);
+      if (!call.plannedWrites || result.isError) return result;
+
+      this.dryRuns.set(dryRunKey, Date.now());
+      return this.formatJsonResponse({
+        dry_run: true,
+        tool: toolName,
+        requests: call.plannedWrites,
+        note: call.plannedWrites.length > 0
+          ? `Nothing was sent. Call ${toolName} again with the same arguments and without dry_run within ${DRY_RUN_TTL_MS / 60000} minutes to apply.`
+          : 'This call would not send any write requests.',
+      });
+    });
+    if (!this.policy.allowsTool(toolName)) tool.disable();
+    return tool;
+  };
+
+  /**
+   * Applies the policy's project and environment scopes to a write request.
+   * Fault writes look up the fault's environment when environments are restricted.
+   */
+  private async checkWritePolicy(
+    target: { projectId?: number; faultId?: string; environment?: string; createsProject?: boolean }
+  ) {
+    const tool = this.callScope.getStore()?.tool;
+    if (!tool) return;
+    if (target.projectId !== undefined) this.policy.checkProject(tool, target.projectId);
+    if (target.createsProject) this.policy.checkProjectCreation(tool);
+    if (!this.policy.restrictsEnvironments(tool)) return;
+    let { environment } = target;
+    if (environment === undefined && target.faultId) {
+      const fault = await this.makeHoneybadgerRequest(`/projects/${target.projectId}/faults/${target.faultId}`);
+      environment = fault.environment;
+    }
+    // Project, check-in and uptime writes have no environment to check
+    if (environment !== undefined || target.faultId) this.policy.checkEnvironment(tool, environment);
+  }
+
+  // ── Confirmations ────────────────────────────────────────────────────────────
+
+  /**
+   * Has the user approve a destructive or bulk write. Clients that support
+   * elicitation show the summary in a form where the user types the project
+   * name; otherwise the model's `confirm: true` is accepted if the policy
+   * allows it. Throws unless the write is confirmed. Dry runs skip this.
+   */
+  private async confirmWrite(summary: string, project: { id: number; name: string }, confirm?: boolean) {
+    const call = this.callScope.getStore();
+    if (!call || call.plannedWrites) return;
+    // Out-of-scope writes fail now rather than after the user has confirmed them
+    await this.checkWritePolicy({ projectId: project.id });
+
+    if (this.server.server.getClientCapabilities()?.elicitation?.form) {
+      const result = await this.server.server.elicitInput({
+        mode: 'form',
+        message: `${summary}\n\nType the project name "${project.name}" to confirm.`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            project_name: { type: 'string', title: 'Project name', description: `Type "${project.name}" to confirm` },
+          },
+          required: ['project_name'],
+        },
+      }, { timeout: ELICITATION_TIMEOUT_MS });
+      if (result.action !== 'accept') {
+        throw new Error(`The user ${result.action === 'decline' ? 'declined' : 'cancelled'} ${call.tool}. Nothing was changed.`);
+      }
+      if (String(result.content?.project_name ?? '').trim() !== project.name) {
+        throw new Error(`The name typed did not match project "${project.name}". Nothing was changed.`);
+      }
+      call.confirmation = 'elicitation';
+      return;
+    }
+
+    if (!this.policy.allowsConfirmArgument) {
+      throw new Error(
+        `${call.tool} must be confirmed by the user, but this client does not support elicitation `
+        + 'and the policy does not accept confirm: true. Use a client with elicitation support.'
+      );
+    }
+    if (!confirm) {
+      throw new Error(`${summary}\nThis client cannot ask the user directly. Get their approval, then call again with confirm: true.`);
+    }
+    call.confirmation = 'confirm_argument';
+  }
+
+  // ── Audit log ────────────────────────────────────────────────────────────────
+
+  /**
+   * Opens the audit record of a write request. Updates and deletes snapshot the
+   * target first, up to AUDIT_SNAPSHOT_MAX requests per call.
+   */
+  private async startAuditRecord(
+    audit: AuditedRequest[],
+    endpoint: string,
+    method: string,
+    data: any,
+    target: { projectId?: number; faultId?: number }
+  ): Promise<AuditedRequest> {
+    const record: AuditedRequest = {
+      method,
+      url: `${this.profile.baseUrl}/v2${endpoint}`,
+      ...(target.projectId !== undefined ? { project_id: target.projectId } : {}),
+      ...(target.faultId !== undefined ? { fault_id: target.faultId } : {}),
+      ...(data ? { body: data } : {}),
+      ...(method !== 'POST' && audit.length < AUDIT_SNAPSHOT_MAX ? { before: await this.auditSnapshot(endpoint) } : {}),
+      status: 'success',
+    };
+    audit.push(record);
+    return record;
+  }
+
+  private async finishAuditRecord(record: AuditedRequest, endpoint: string, method: string, response: any, snapshot: boolean) {
+    if (method === 'POST') record.after = response;
+    else if (method === 'PUT' && snapshot) record.after = await this.auditSnapshot(endpoint);
+    else if (method === 'DELETE') record.after = null;
+  }
+
+  // Current state of a write's target; a failed fetch is noted, never thrown
+  private async auditSnapshot(endpoint: string) {
+    try {
+      return await this.makeHoneybadgerRequest(endpoint, { bypassCache: true });
+    } catch (e: any) {
+      return { snapshot_error: e.message };
+    }
+  }
+
+  private recordAudit(call: ToolCall, args: Record<string, any>, result: any, startedAt: number, session?: string) {
+    const requests = call.audit || [];
+    const ids = (values: any[]) => Array.from(new Set(values.filter((v) => v !== undefined).map(Number)));
+    const client = this.server.server.getClientVersion();
+    const entry = {
+      timestamp: new Date(startedAt).toISOString(),
+      tool: call.tool,
+      profile: call.profile.name,
+      ...(this.config.caller ? { caller: this.config.caller } : {}),
+      ...(client ? { client: `${client.name} ${client.version}` } : {}),
+      ...(session ? { session } : {}),
+      ...(call.confirmation ? { confirmation: call.confirmation } : {}),
+      arguments: args,
+      targets: {
+        project_ids: ids([args.project_id, ...requests.map((r) => r.project_id)]),
+        fault_ids: ids([args.fault_id, ...(args.fault_ids || []), ...requests.map((r) => r.fault_id)]),
+      },
+      requests,
+      outcome: result?.isError ? 'error' as const : 'success' as const,
+      result: String(result?.content?.[0]?.text ?? '').split('\n')[0],
+      duration_ms: Date.now() - startedAt,
+    };
+    try {
+      // Arguments and snapshots (e.g., a project's API token) follow the redaction rules
+      this.auditLog!.append(this.redactor.redact(entry).value);
+    } catch (e: any) {
+      // A full disk must not turn a write that happened into a reported failure
+      console.error(`Could not write audit log ${this.auditLog!.path}: ${e.message}`);
+    }
   }
 
   // ── Utility methods ──────────────────────────────────────────────────────────
 
   private resolveProjectId(providedId?: number): number {
-    const pid = providedId || (this.config.projectId ? Number(this.config.projectId) : undefined);
+    const pid = providedId || (this.profile.projectId ? Number(this.profile.projectId) : undefined);
     if (!pid) {
-      throw new Error(
-        'Project ID required. Provide via project_id parameter or HONEYBADGER_PROJECT_ID env var.'
-      );
+      const source = this.profile.name === ENV_PROFILE ? 'HONEYBADGER_PROJECT_ID env var' : `project_id in profile "${this.profile.name}"`;
+      throw new Error(`Project ID required. Provide via project_id parameter or ${source}.`);
     }
     return pid;
   }
@@ -125,21 +604,37 @@ All IDs (project_id, fault_id) are integers, not strings.`,
     };
   }
 
-  private formatJsonResponse(data: any) {
+  private formatJsonResponse(data: any, output?: OutputOptions) {
+    const text = JSON.stringify(shapeItem(data, output), null, 2);
     return {
-      content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+      content: [{ type: 'text' as const, text: truncateText(text, this.config.maxResponseChars) }],
     };
   }
 
   private formatListResponse(
     items: any[],
-    metadata?: { total?: number; page?: number; per_page?: number }
+    metadata?: { total?: number; page?: number; per_page?: number; next_cursor?: string; note?: string },
+    output?: OutputOptions
   ) {
+    const shaped = items.map((item) => shapeItem(item, output));
+    const render = output?.detail === 'summary'
+      ? renderTable
+      : (list: any[]) => JSON.stringify(list, null, 2);
+    const { text, omitted } = fitItemsToBudget(shaped, render, this.config.maxResponseChars);
+
     let summary = `Found ${items.length} items`;
     if (metadata?.total) summary += ` (${metadata.total} total)`;
     if (metadata?.page) summary += `, page ${metadata.page}`;
+    if (metadata?.note) summary += `\n${metadata.note}`;
+    if (omitted > 0) {
+      summary += `\n${omitted} more omitted to stay within the response budget (${this.config.maxResponseChars} characters).`
+        + ' Use detail "summary", fields or a smaller limit to see them.';
+    }
+    if (metadata?.next_cursor) {
+      summary += `\nMore results available. To continue, call again with cursor: "${metadata.next_cursor}"`;
+    }
     return {
-      content: [{ type: 'text' as const, text: `${summary}\n\n${JSON.stringify(items, null, 2)}` }],
+      content: [{ type: 'text' as const, text: `${summary}\n\n${text}` }],
     };
   }
 
@@ -149,6 +644,65 @@ All IDs (project_id, fault_id) are integers, not strings.`,
     };
   }
 
+  private formatBulkWriteResponse(results: FaultWriteResult[], operation: string, matched: string) {
+    const succeeded = results.filter((r) => r.success).length;
+    const failed = results.length - succeeded;
+    const summary = `${operation}: ${succeeded} succeeded, ${failed} failed (${results.length} of ${matched} matching faults updated)`;
+    return {
+      content: [{ type: 'text' as const, text: `${summary}\n\n${JSON.stringify(results, null, 2)}` }],
+      ...(failed > 0 && succeeded === 0 ? { isError: true as const } : {}),
+    };
+  }
+
+  private formatQueryCheck(query: string, check: QueryCheck) {
+    return this.formatJsonResponse({
+      valid: check.valid,
+      query,
+      ...(check.errors.length > 0 ? { errors: check.errors } : {}),
+      ...(check.warnings.length > 0 ? { warnings: check.warnings } : {}),
+      steps: check.steps,
+      note: check.valid
+        ? 'Syntax looks valid. Field names are only checked by Insights when the query runs; see list_honeybadger_insights_fields.'
+        : 'Fix the errors before running the query. Pass validate: false to query_honeybadger_insights to send it anyway.',
+    });
+  }
+
+  /**
+   * Renders an Insights response as raw JSON or as a Markdown/CSV table of its
+   * rows, dropping trailing rows to fit the response budget.
+   */
+  private formatInsightsResponse(result: any, format: 'json' | 'markdown' | 'csv', header: string[] = []) {
+    if (format === 'json') {
+      if (header.length === 0) return this.formatJsonResponse(result);
+      const text = `${header.join('\n')}\n\n${JSON.stringify(result, null, 2)}`;
+      return { content: [{ type: 'text' as const, text: truncateText(text, this.config.maxResponseChars) }] };
+    }
+    const { columns, rows } = toInsightsTable(result);
+    const render = format === 'csv'
+      ? (items: any[]) => `\`\`\`csv\n${renderCsv(items, columns)}\n\`\`\``
+      : (items: any[]) => renderTable(items, columns);
+    const { text, omitted } = fitItemsToBudget(rows, render, this.config.maxResponseChars);
+    const meta = result?.meta || {};
+    const lines = [...header, `${rows.length} rows${meta.total_rows > rows.length ? ` (${meta.total_rows} total)` : ''}`];
+    if (meta.start_at && meta.end_at) lines.push(`Time range: ${meta.start_at} to ${meta.end_at}`);
+    if (omitted > 0) lines.push(`${omitted} rows omitted to stay within the response budget (${this.config.maxResponseChars} characters). Add a limit or use stats to aggregate.`);
+    return { content: [{ type: 'text' as const, text: `${lines.join('\n')}\n\n${text}` }] };
+  }
+
+  private buildFaultFilterParams(filters: {
+    q?: string;
+    created_after?: string;
+    occurred_after?: string;
+    occurred_before?: string;
+  }) {
+    const params: any = {};
+    if (filters.q) params.q = filters.q;
+    if (filters.created_after) params.created_after = this.parseTimestamp(filters.created_after);
+    if (filters.occurred_after) params.occurred_after = this.parseTimestamp(filters.occurred_after);
+    if (filters.occurred_before) params.occurred_before = this.parseTimestamp(filters.occurred_before);
+    return params;
+  }
+
   // ── HTTP client ──────────────────────────────────────────────────────────────
 
   private async makeHoneybadgerRequest(
@@ -157,45 +711,650 @@ All IDs (project_id, fault_id) are integers, not strings.`,
       method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
       params?: any;
       data?: any;
+      // Whether the request may be retried after a 5xx or network failure.
+      // Defaults to true for everything except POST; 429s are always retried.
+      idempotent?: boolean;
+      // Skip the GET response cache and refresh it with the new response
+      bypassCache?: boolean;
+      // Set to false for POSTs that only read data (e.g., Insights queries)
+      invalidatesCache?: boolean;
     } = {}
   ) {
-    if (!this.config.apiKey) {
-      throw new Error('HONEYBADGER_API_KEY environment variable is required');
+    // Replayed cassettes need no credentials
+    if (!this.profile.apiKey && this.cassette?.mode !== 'replay') {
+      throw new Error(this.profile.name === ENV_PROFILE
+        ? 'HONEYBADGER_API_KEY environment variable is required'
+        : `Profile "${this.profile.name}" has no API key (${this.profile.apiKeySource})`);
+    }
+
+    // axios resolves dot segments, so the request would not go where the policy checks below think it does
+    if (endpoint.split(/[/?]/).some((segment) => /^(\.|%2e)+$/i.test(segment))) {
+      throw new Error(`Invalid API path ${endpoint}: IDs may not contain "." or ".." segments`);
+    }
+    const { method = 'GET', params, bypassCache = false, invalidatesCache = method !== 'GET' } = options;
+    let target: { projectId?: number; faultId?: number } = {};
+    // Writes are exactly the requests that invalidate the cache
+    if (invalidatesCache) {
+      const [, projectId, faultId] = /^\/projects\/(\d+)(?:\/faults\/(\d+))?/.exec(endpoint) || [];
+      await this.checkWritePolicy({
+        projectId: projectId ? Number(projectId) : undefined,
+        faultId,
+        createsProject: method === 'POST' && endpoint === '/projects',
+      });
+      target = { projectId: projectId ? Number(projectId) : undefined, faultId: faultId ? Number(faultId) : undefined };
+      const planned = this.callScope.getStore()?.plannedWrites;
+      if (planned) {
+        planned.push({ method, url: `${this.profile.baseUrl}/v2${endpoint}`, ...(options.data ? { body: options.data } : {}) });
+        return {};
+      }
+    }
+
+    const { cache } = this.client;
+    if (method === 'GET' && cache) {
+      return cache.getOrFetch(
+        ResponseCache.key(endpoint, params),
+        endpoint,
+        () => this.sendHoneybadgerRequest(endpoint, options),
+        bypassCache
+      );
+    }
+
+    const audit = invalidatesCache ? this.callScope.getStore()?.audit : undefined;
+    const snapshot = audit !== undefined && audit.length < AUDIT_SNAPSHOT_MAX;
+    const record = audit && await this.startAuditRecord(audit, endpoint, method, options.data, target);
+    try {
+      const response = await this.sendHoneybadgerRequest(endpoint, options);
+      if (record) await this.finishAuditRecord(record, endpoint, method, response, snapshot);
+      return response;
+    } catch (error: any) {
+      if (record) Object.assign(record, { status: 'error', error: error.message });
+      throw error;
+    } finally {
+      // Invalidate even on failure: the write may have been applied before the error
+      if (invalidatesCache) cache?.invalidate(endpoint);
+    }
+  }
+
+  private async sendHoneybadgerRequest(
+    endpoint: string,
+    options: {
+      method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+      params?: any;
+      data?: any;
+      idempotent?: boolean;
+    }
+  ) {
+    const { method = 'GET', params, data, idempotent = method !== 'POST' } = options;
+    if (this.cassette?.mode === 'replay') {
+      const response = this.cassette.replay({ method, endpoint, params, data });
+      if (response.status >= 400) throw this.toHoneybadgerError({ response: { ...response, headers: {} } }, endpoint);
+      return response.data;
     }
 
-    const { method = 'GET', params, data } = options;
-    const url = `${this.config.baseUrl}/v2${endpoint}`;
-    const credentials = Buffer.from(`${this.config.apiKey}:`).toString('base64');
+    const url = `${this.profile.baseUrl}/v2${endpoint}`;
+    const credentials = Buffer.from(`${this.profile.apiKey}:`).toString('base64');
+
+    const config: any = {
+      method,
+      url,
+      timeout: this.config.timeoutMs,
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+    };
+    if (params) config.params = params;
+    if (data) config.data = data;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios(config);
+        this.updateRateLimit(response.headers);
+        if (this.cassette?.mode === 'record') {
+          this.cassette.record({ method, endpoint, params, data }, { status: response.status, data: response.data });
+        }
+        return response.data;
+      } catch (error: any) {
+        if (error.response) this.updateRateLimit(error.response.headers);
+        const delay = this.retryDelay(error, attempt, idempotent);
+        if (delay === undefined) {
+          // API errors are part of the session too (e.g., a 404 for a deleted fault)
+          if (error.response && this.cassette?.mode === 'record') {
+            this.cassette.record({ method, endpoint, params, data }, { status: error.response.status, data: error.response.data });
+          }
+          throw this.toHoneybadgerError(error, endpoint, attempt);
+        }
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
 
+  // The reporting API (deploys, check-ins) authenticates with a project API key
+  // rather than the personal auth token used by the v2 Data API.
+  private async makeReportingRequest(endpoint: string, projectApiKey: string, data: any, projectId: number) {
+    await this.checkWritePolicy({ projectId, environment: data?.deploy?.environment });
+    const planned = this.callScope.getStore()?.plannedWrites;
+    if (planned) {
+      planned.push({
+        method: 'POST',
+        url: `${this.profile.reportingUrl}/v1${endpoint}`,
+        headers: { 'X-API-Key': `[API key of project ${projectId}]` },
+        body: data,
+      });
+      return {};
+    }
+    if (this.cassette?.mode === 'replay') {
+      throw new Error(`The Reporting API (${endpoint}) is not available when replaying a cassette`);
+    }
+    const record: AuditedRequest = {
+      method: 'POST', url: `${this.profile.reportingUrl}/v1${endpoint}`, project_id: projectId, body: data, status: 'success',
+    };
+    this.callScope.getStore()?.audit?.push(record);
     try {
-      const config: any = {
-        method,
-        url,
+      const response = await axios({
+        method: 'POST',
+        url: `${this.profile.reportingUrl}/v1${endpoint}`,
+        timeout: this.config.timeoutMs,
         headers: {
-          'Authorization': `Basic ${credentials}`,
+          'X-API-Key': projectApiKey,
           'Accept': 'application/json',
           'Content-Type': 'application/json',
         },
-      };
-      if (params) config.params = params;
-      if (data) config.data = data;
-
-      const response = await axios(config);
+        data,
+      });
+      record.after = response.data;
       return response.data;
     } catch (error: any) {
-      if (error.response) {
-        const status = error.response.status;
-        const message = error.response.data?.error || error.response.statusText;
+      const wrapped = this.toHoneybadgerError(error, endpoint);
+      Object.assign(record, { status: 'error', error: wrapped.message });
+      throw wrapped;
+    }
+  }
+
+  // Insights queries are POSTs that only read data
+  private async runInsightsQuery(pid: number, query: string, ts?: string, timezone?: string) {
+    const data: any = { query };
+    if (ts) data.ts = ts;
+    if (timezone) data.timezone = timezone;
+    return this.makeHoneybadgerRequest(`/projects/${pid}/insights/query`, {
+      method: 'POST',
+      data,
+      idempotent: true,
+      invalidatesCache: false,
+    });
+  }
+
+  private updateRateLimit(headers: any) {
+    const header = (name: string) => {
+      const value = Number(headers?.[name]);
+      return Number.isFinite(value) && headers?.[name] !== undefined ? value : undefined;
+    };
+    const limit = header('x-ratelimit-limit');
+    const remaining = header('x-ratelimit-remaining');
+    const reset = header('x-ratelimit-reset');
+    const { rateLimit } = this.client;
+    if (limit !== undefined) rateLimit.limit = limit;
+    if (remaining !== undefined) rateLimit.remaining = remaining;
+    if (reset !== undefined) rateLimit.resetAt = new Date(reset * 1000);
+  }
+
+  // Milliseconds to wait before the next attempt, or undefined to give up.
+  private retryDelay(error: any, attempt: number, idempotent: boolean): number | undefined {
+    if (attempt >= this.config.maxRetries) return undefined;
+
+    const status: number | undefined = error.response?.status;
+    const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+
+    if (status === 429) {
+      const wait = this.retryAfterMs(error.response.headers) ?? backoff;
+      // Waiting minutes inside a tool call is worse than failing with a clear message
+      return wait <= MAX_RETRY_AFTER_MS ? wait : undefined;
+    }
+    if (!idempotent) return undefined;
+    if (status !== undefined) {
+      if (![500, 502, 503, 504].includes(status)) return undefined;
+      const wait = this.retryAfterMs(error.response.headers) ?? backoff;
+      return wait <= MAX_RETRY_AFTER_MS ? wait : undefined;
+    }
+    // No response: network failure or timeout
+    return axios.isCancel(error) ? undefined : backoff;
+  }
+
+  private retryAfterMs(headers: any): number | undefined {
+    const retryAfter = headers?.['retry-after'];
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date)) return Math.max(0, date - Date.now());
+    }
+    const { rateLimit } = this.client;
+    if (rateLimit.remaining === 0 && rateLimit.resetAt) {
+      return Math.max(0, rateLimit.resetAt.getTime() - Date.now());
+    }
+    return undefined;
+  }
+
+  private describeRateLimit(): string {
+    const { limit, remaining, resetAt } = this.client.rateLimit;
+    if (remaining === undefined) return '';
+    const budget = limit !== undefined ? `${remaining} of ${limit} requests remaining` : `${remaining} requests remaining`;
+    return resetAt ? ` (${budget}, resets at ${resetAt.toISOString()})` : ` (${budget})`;
+  }
+
+  private toHoneybadgerError(error: any, endpoint: string, retries = 0): Error {
+    const afterRetries = retries > 0 ? ` (after ${retries} ${retries === 1 ? 'retry' : 'retries'})` : '';
+    if (error.response) {
+      const status = error.response.status;
+      const message = error.response.data?.error || error.response.statusText;
+
+      if (status === 401) return new Error(`Authentication failed. Check ${this.profile.apiKeySource}.`);
+      if (status === 403) return new Error(`Permission denied: ${message}`);
+      if (status === 404) return new Error(`Not found: ${endpoint}`);
+      if (status === 422) return new Error(`Validation error: ${message}`);
+      if (status === 429) {
+        const retryAfter = this.retryAfterMs(error.response.headers);
+        const when = retryAfter !== undefined ? ` Retry in ${Math.ceil(retryAfter / 1000)}s.` : ' Please wait and retry.';
+        return new Error(`Rate limit exceeded${this.describeRateLimit()}${afterRetries}.${when}`);
+      }
+
+      return new Error(`Honeybadger API error: ${status} - ${message}${afterRetries}`);
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new Error(`Request timed out after ${this.config.timeoutMs}ms${afterRetries}: ${endpoint}`);
+    }
+    return new Error(`Network error: ${error.message}${afterRetries}`);
+  }
+
+  // ── Pagination ───────────────────────────────────────────────────────────────
+
+  /**
+   * Follows `links.next` until maxResults items are collected. Returns an opaque
+   * cursor when more results remain, including when the last page was only partly used.
+   * With a client-side `filter`, at most `maxPages` pages are scanned per call.
+   */
+  private async collectPages(
+    endpoint: string,
+    params: any,
+    options: {
+      maxResults: number;
+      cursor?: string;
+      bypassCache?: boolean;
+      filter?: (item: any) => boolean;
+      maxPages?: number;
+    }
+  ): Promise<{ items: any[]; total?: number; nextCursor?: string }> {
+    const { maxResults, cursor, bypassCache = false, filter, maxPages = Infinity } = options;
+    let request: PageCursor | undefined = cursor
+      ? decodeCursor(cursor, endpoint)
+      : { endpoint, params, skip: 0 };
+    const items: any[] = [];
+    let total: number | undefined;
+
+    for (let page = 0; request && items.length < maxResults && page < maxPages; page++) {
+      const data = await this.makeHoneybadgerRequest(request.endpoint, { params: request.params, bypassCache });
+      total ??= data.total_count;
+      const results: any[] = (Array.isArray(data) ? data : (data.results || [])).slice(request.skip);
+      for (let i = 0; i < results.length; i++) {
+        if (filter && !filter(results[i])) continue;
+        items.push(results[i]);
+        if (items.length === maxResults && i < results.length - 1) {
+          return { items, total, nextCursor: encodeCursor({ ...request, skip: request.skip + i + 1 }) };
+        }
+      }
+      const next = Array.isArray(data) ? undefined : nextPageRequest(data.links?.next, this.profile.baseUrl);
+      request = next && results.length > 0 ? { ...next, skip: 0 } : undefined;
+    }
+    return { items, total, nextCursor: request ? encodeCursor(request) : undefined };
+  }
+
+  // ── Fault updates ────────────────────────────────────────────────────────────
 
-        if (status === 401) throw new Error('Authentication failed. Check HONEYBADGER_API_KEY.');
-        if (status === 403) throw new Error(`Permission denied: ${message}`);
-        if (status === 404) throw new Error(`Not found: ${endpoint}`);
-        if (status === 422) throw new Error(`Validation error: ${message}`);
-        if (status === 429) throw new Error('Rate limit exceeded. Please wait and retry.');
+  private async updateFault(projectId: number, faultId: number | string, fault: any) {
+    return this.makeHoneybadgerRequest(`/projects/${projectId}/faults/${faultId}`, {
+      method: 'PUT',
+      data: { fault },
+    });
+  }
 
-        throw new Error(`Honeybadger API error: ${status} - ${message}`);
+  private async applyFaultAction(
+    projectId: number,
+    fault: HoneybadgerFault,
+    action: FaultAction,
+    options: { assigneeId?: number; tags?: string[] } = {}
+  ) {
+    switch (action) {
+      case 'resolve':
+        return this.updateFault(projectId, fault.id, { resolved: true });
+      case 'unresolve':
+        return this.updateFault(projectId, fault.id, { resolved: false });
+      case 'ignore':
+        return this.updateFault(projectId, fault.id, { ignored: true });
+      case 'unignore':
+        return this.updateFault(projectId, fault.id, { ignored: false });
+      case 'assign':
+        if (!options.assigneeId) throw new Error('assignee_id is required for the assign action');
+        return this.updateFault(projectId, fault.id, { assignee_id: options.assigneeId });
+      case 'unassign':
+        return this.updateFault(projectId, fault.id, { assignee_id: null });
+      case 'add_tags':
+      case 'remove_tags': {
+        if (!options.tags || options.tags.length === 0) throw new Error(`tags are required for the ${action} action`);
+        const current = fault.tags || [];
+        const tags = action === 'add_tags'
+          ? Array.from(new Set([...current, ...options.tags]))
+          : current.filter((t) => !options.tags!.includes(t));
+        return this.updateFault(projectId, fault.id, { tags });
       }
-      throw new Error(`Network error: ${error.message}`);
+    }
+  }
+
+  private async collectFaults(
+    projectId: number,
+    filters: any,
+    maxFaults: number,
+    bypassCache = false
+  ): Promise<HoneybadgerFault[]> {
+    const { items } = await this.collectPages(`/projects/${projectId}/faults`, { ...filters, limit: 25 }, {
+      maxResults: maxFaults,
+      bypassCache,
+    });
+    return items;
+  }
+
+  // ── Deploys ──────────────────────────────────────────────────────────────────
+
+  private async fetchDeploy(
+    projectId: number,
+    deployId?: number,
+    environment?: string,
+    bypassCache = false
+  ): Promise<HoneybadgerDeploy> {
+    if (deployId) {
+      return this.makeHoneybadgerRequest(`/projects/${projectId}/deploys/${deployId}`, { bypassCache });
+    }
+    const params: any = { limit: 1 };
+    if (environment) params.environment = environment;
+    const data = await this.makeHoneybadgerRequest(`/projects/${projectId}/deploys`, { params, bypassCache });
+    const latest = (data.results || [])[0];
+    if (!latest) {
+      throw new Error(`No deploys found for project ${projectId}${environment ? ` in ${environment}` : ''}`);
+    }
+    return latest;
+  }
+
+  private async correlateDeployFaults(
+    projectId: number,
+    deploy: HoneybadgerDeploy,
+    windowHours: number,
+    maxFaults: number,
+    bypassCache = false
+  ): Promise<DeployFaultCorrelation> {
+    const deployedAt = new Date(deploy.created_at);
+    const windowMs = windowHours * 60 * 60 * 1000;
+    const beforeFrom = new Date(deployedAt.getTime() - windowMs);
+    const afterTo = new Date(Math.min(deployedAt.getTime() + windowMs, Date.now()));
+
+    // Scope fault search to the deploy's environment
+    const q = deploy.environment ? `environment:"${deploy.environment}"` : undefined;
+    const collect = (from: Date, to: Date) => this.collectPages(`/projects/${projectId}/faults`, {
+      q,
+      occurred_after: from.toISOString(),
+      occurred_before: to.toISOString(),
+      limit: 25,
+    }, { maxResults: maxFaults, bypassCache });
+    const [beforePage, afterPage] = await Promise.all([collect(beforeFrom, deployedAt), collect(deployedAt, afterTo)]);
+    const beforeFaults: HoneybadgerFault[] = beforePage.items;
+    const afterFaults: HoneybadgerFault[] = afterPage.items;
+
+    const beforeIds = new Set(beforeFaults.map((f) => String(f.id)));
+    const afterIds = new Set(afterFaults.map((f) => String(f.id)));
+    const sumNotices = (faults: HoneybadgerFault[]) => faults.reduce((n, f) => n + (f.notices_count || 0), 0);
+    const byCount = (a: HoneybadgerFault, b: HoneybadgerFault) => (b.notices_count || 0) - (a.notices_count || 0);
+
+    const newFaults = afterFaults.filter((f) => new Date(f.created_at) >= deployedAt);
+    const existing = afterFaults.filter((f) => new Date(f.created_at) < deployedAt);
+
+    return {
+      deploy,
+      window_hours: windowHours,
+      max_faults: maxFaults,
+      before: {
+        from: beforeFrom.toISOString(),
+        to: deployedAt.toISOString(),
+        fault_count: beforeFaults.length,
+        notices: sumNotices(beforeFaults),
+        truncated: beforePage.nextCursor !== undefined,
+      },
+      after: {
+        from: deployedAt.toISOString(),
+        to: afterTo.toISOString(),
+        fault_count: afterFaults.length,
+        notices: sumNotices(afterFaults),
+        truncated: afterPage.nextCursor !== undefined,
+      },
+      new_faults: newFaults.sort(byCount),
+      reappeared_faults: existing.filter((f) => !beforeIds.has(String(f.id))).sort(byCount),
+      continuing_faults: existing.filter((f) => beforeIds.has(String(f.id))).sort(byCount),
+      gone_faults: beforeFaults.filter((f) => !afterIds.has(String(f.id))).sort(byCount),
+    };
+  }
+
+  private formatDeployCorrelation(c: DeployFaultCorrelation): string {
+    const line = (f: HoneybadgerFault) =>
+      `- #${f.id} ${f.klass}: ${f.message} (${f.notices_count} total occurrences, first seen ${f.created_at}${f.resolved ? ', resolved' : ''})`;
+    const section = (title: string, faults: HoneybadgerFault[]) =>
+      `## ${title} (${faults.length})\n${faults.length > 0 ? faults.map(line).join('\n') : '- None'}`;
+    const cut = [c.before.truncated && 'before', c.after.truncated && 'after'].filter(Boolean);
+    const truncation = cut.length > 0
+      ? `\n> **Partial comparison:** the ${cut.join(' and ')} window${cut.length > 1 ? 's' : ''} had more than ${c.max_faults} fault${c.max_faults === 1 ? '' : 's'}`
+        + ' and only the first ones were fetched. Faults past the cut may be misclassified as new, re-appeared or gone.'
+        + ' Raise max_faults or shorten window_hours.\n'
+      : '';
+
+    return `# Faults Since Deploy ${c.deploy.id}
+
+- **Revision**: ${c.deploy.revision || 'unknown'}
+- **Environment**: ${c.deploy.environment}
+- **Deployed By**: ${c.deploy.local_username || 'unknown'}
+- **Deployed At**: ${c.deploy.created_at}
+- **Window**: ${c.window_hours}h before vs. ${c.window_hours}h after
+
+| Window | From | To | Faults | Occurrences (lifetime) |
+|--------|------|----|--------|------------------------|
+| Before | ${c.before.from} | ${c.before.to} | ${c.before.fault_count}${c.before.truncated ? '+' : ''} | ${c.before.notices} |
+| After | ${c.after.from} | ${c.after.to} | ${c.after.fault_count}${c.after.truncated ? '+' : ''} | ${c.after.notices} |
+${truncation}
+${section('New Faults (first seen after deploy)', c.new_faults)}
+
+${section('Re-appeared Faults (existed before, silent in the window before deploy)', c.reappeared_faults)}
+
+${section('Continuing Faults (seen before and after)', c.continuing_faults)}
+
+${section('Gone Faults (seen before, not since)', c.gone_faults)}`;
+  }
+
+  // ── Monitoring ───────────────────────────────────────────────────────────────
+
+  private buildCheckInPayload(input: {
+    name?: string;
+    slug?: string;
+    schedule_type?: 'simple' | 'cron';
+    report_period?: string;
+    grace_period?: string;
+    cron_schedule?: string;
+    cron_timezone?: string;
+  }) {
+    const checkIn: any = {};
+    for (const [key, value] of Object.entries(input)) {
+      if (value !== undefined) checkIn[key] = value;
+    }
+    if (checkIn.schedule_type === 'cron' && !checkIn.cron_schedule) {
+      throw new Error('cron_schedule is required when schedule_type is "cron"');
+    }
+    if (checkIn.schedule_type === 'simple' && !checkIn.report_period) {
+      throw new Error('report_period is required when schedule_type is "simple"');
+    }
+    return { check_in: checkIn };
+  }
+
+  private buildUptimeSitePayload(input: {
+    name?: string;
+    url?: string;
+    frequency?: number;
+    match_type?: string;
+    match?: string;
+    request_method?: string;
+    locations?: string[];
+    validate_ssl?: boolean;
+    timeout?: number;
+    active?: boolean;
+  }) {
+    const site: any = {};
+    for (const [key, value] of Object.entries(input)) {
+      if (value !== undefined) site[key] = value;
+    }
+    if (site.match_type && site.match_type !== 'success' && !site.match) {
+      throw new Error(`match is required when match_type is "${site.match_type}"`);
+    }
+    return { site };
+  }
+
+  private buildTimeRangeParams(created_after?: string, created_before?: string, limit?: number) {
+    const params: any = {};
+    if (created_after) params.created_after = this.parseTimestamp(created_after);
+    if (created_before) params.created_before = this.parseTimestamp(created_before);
+    if (limit) params.limit = limit;
+    return params;
+  }
+
+  // ── Trends ───────────────────────────────────────────────────────────────────
+
+  /**
+   * Builds a fault's occurrence series from notice timestamps over the last
+   * `windowHours`, fetching at most `maxNotices` notices (newest first).
+   */
+  private async faultTrend(
+    projectId: number,
+    faultId: number | string,
+    windowHours: number,
+    options: { maxNotices?: number; withDeploys?: boolean; bypassCache?: boolean } = {}
+  ): Promise<FaultTrend> {
+    const { maxNotices = TREND_MAX_NOTICES, withDeploys = false, bypassCache = false } = options;
+    const to = new Date();
+    const from = new Date(to.getTime() - windowHours * 60 * 60 * 1000);
+    const [notices, deploys] = await Promise.all([
+      this.collectPages(`/projects/${projectId}/faults/${faultId}/notices`, {
+        limit: 25,
+        created_after: from.toISOString(),
+      }, { maxResults: maxNotices, bypassCache }),
+      withDeploys
+        ? this.makeHoneybadgerRequest(`/projects/${projectId}/deploys`, {
+          params: { created_after: from.toISOString(), limit: 25 },
+          bypassCache,
+        }).then((data) => (data.results || []) as TrendDeploy[]).catch(() => [])
+        : Promise.resolve([]),
+    ]);
+    return analyzeTrend(
+      notices.items.map((n: any) => n.created_at || n.occurred_at),
+      { from, to, bucketHours: bucketHoursFor(windowHours), truncated: Boolean(notices.nextCursor), deploys }
+    );
+  }
+
+  // ── Notices ──────────────────────────────────────────────────────────────────
+
+  // Every response built from notice data goes through here so request context,
+  // params, session and cgi_data never reach the model unredacted.
+  private redactNotices<T>(data: T): { data: T; summary?: string } {
+    const { value, counts } = this.redactor.redact(data, { skipKeys: ['backtrace', 'assignee'] });
+    return { data: value, summary: Redactor.summarize(counts) };
+  }
+
+  private async fetchNotice(
+    projectId: number,
+    faultId: number | string,
+    noticeId: string,
+    maxPages = NOTICE_SEARCH_MAX_PAGES,
+    bypassCache = false
+  ): Promise<HoneybadgerNotice> {
+    let request: PageRequest | undefined = {
+      endpoint: `/projects/${projectId}/faults/${faultId}/notices`,
+      params: { limit: 25 },
+    };
+    for (let page = 0; request && page < maxPages; page++) {
+      const data = await this.makeHoneybadgerRequest(request.endpoint, { params: request.params, bypassCache });
+      const match = (data.results || []).find((n: HoneybadgerNotice) => String(n.id) === String(noticeId));
+      if (match) return match;
+      request = nextPageRequest(data.links?.next, this.profile.baseUrl);
+    }
+    throw new Error(`Not found: notice ${noticeId} in fault ${faultId}`);
+  }
+
+  private async fetchNoticeOrLatest(
+    projectId: number,
+    faultId: number,
+    noticeId?: string,
+    bypassCache = false
+  ): Promise<HoneybadgerNotice> {
+    if (noticeId) return this.fetchNotice(projectId, faultId, noticeId, NOTICE_SEARCH_MAX_PAGES, bypassCache);
+    const data = await this.makeHoneybadgerRequest(`/projects/${projectId}/faults/${faultId}/notices`, {
+      params: { limit: 1 },
+      bypassCache,
+    });
+    const latest = (data.results || [])[0];
+    if (!latest) throw new Error(`Fault ${faultId} has no notices.`);
+    return latest;
+  }
+
+  // ── Local source ─────────────────────────────────────────────────────────────
+
+  /**
+   * Resolves `maxFrames` frames of a notice (from `startAt`, default the top)
+   * against the local checkout, at the notice's deploy revision when one is
+   * recorded and useRevision is set.
+   */
+  private async resolveNoticeSource(
+    notice: HoneybadgerNotice,
+    maxFrames: number,
+    options: { useRevision?: boolean; revision?: string; startAt?: number } = {}
+  ): Promise<{ revision?: string; frames: ResolvedFrame[] }> {
+    if (!this.sourceResolver) {
+      throw new Error('Local source mapping is not configured. Set HONEYBADGER_WORKSPACE_ROOT to a local checkout.');
+    }
+    const revision = options.revision || (options.useRevision ? notice.deploy?.revision : undefined);
+    const startAt = options.startAt ?? 0;
+    const frames = await this.sourceResolver.resolveFrames(
+      (notice.backtrace || []).slice(startAt, startAt + maxFrames),
+      revision
+    );
+    return { revision, frames };
+  }
+
+  // ── Completions ──────────────────────────────────────────────────────────────
+  // Completion callbacks must never throw; an empty list just means "no suggestions".
+
+  private async completeProjectIds(value: string): Promise<string[]> {
+    try {
+      const data = await this.makeHoneybadgerRequest('/projects', { params: { per_page: 100 } });
+      return (data.results || [])
+        .filter((p: any) => String(p.id).startsWith(value) || p.name?.toLowerCase().includes(value.toLowerCase()))
+        .map((p: any) => String(p.id))
+        .slice(0, 100);
+    } catch {
+      return [];
+    }
+  }
+
+  private async completeFaultIds(value: string, projectId?: string): Promise<string[]> {
+    try {
+      const pid = this.resolveProjectId(Number(projectId) || undefined);
+      const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults`, { params: { limit: 25 } });
+      return (data.results || [])
+        .map((f: HoneybadgerFault) => String(f.id))
+        .filter((id: string) => id.startsWith(value));
+    } catch {
+      return [];
     }
   }
 
@@ -203,16 +1362,107 @@ All IDs (project_id, fault_id) are integers, not strings.`,
 
   private setupTools() {
     this.registerReadTools();
-    if (!this.config.readOnly) {
+    // Writes are still refused per call under read-only profiles
+    if (this.profiles.list().some((profile) => !profile.readOnly)) {
       this.registerWriteTools();
     }
   }
 
   private registerReadTools() {
-    // ── Projects ─────────────────────────────────────────────────────────────
+    // ── Profiles ─────────────────────────────────────────────────────────────
 
+    // Registered directly: it covers every profile, so it takes no profile argument
     // @ts-expect-error - TypeScript has issues with deep type instantiation in MCP SDK
-    this.server.registerTool(
+    const listProfiles = this.server.registerTool(
+      'list_honeybadger_profiles',
+      {
+        description: 'List configured Honeybadger profiles (account connections) with their base URL, defaults, '
+          + 'read-only flag and the projects each one can reach. API keys are never shown.',
+        annotations: {
+          title: 'List Profiles',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          include_projects: z.boolean().default(true).describe('Fetch the projects each profile can reach'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ include_projects = true, bypass_cache = false, ...output }) => {
+        try {
+          // A bad key or unreachable host is reported on that profile, not thrown
+          const items = await Promise.all(this.profiles.list().map(async (profile) => {
+            const summary: any = this.profiles.summarize(profile);
+            if (!include_projects) return summary;
+            try {
+              const { items: projects, total } = await this.callScope.run({ tool: 'list_honeybadger_profiles', profile }, () =>
+                this.collectPages('/projects', { per_page: 100 }, {
+                  maxResults: PROFILE_PROJECTS_MAX,
+                  bypassCache: bypass_cache,
+                }));
+              summary.projects_total = total ?? projects.length;
+              summary.projects = projects.map((p: any) => ({ id: p.id, name: p.name }));
+            } catch (e: any) {
+              summary.projects_error = e.message;
+            }
+            return summary;
+          }));
+          return this.formatListResponse(items, { total: items.length }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+    if (!this.policy.allowsTool('list_honeybadger_profiles')) listProfiles.disable();
+
+    // ── Audit log ────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'query_honeybadger_audit_log',
+      {
+        description: 'Query the local audit log of write tool calls made through this server: who ran which tool with '
+          + 'which arguments, the requests sent, before/after snapshots of the targets and the outcome. Newest first.',
+        annotations: {
+          title: 'Query Audit Log',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          since: z.string().optional().describe('Only entries at or after this time (RFC3339)'),
+          until: z.string().optional().describe('Only entries at or before this time (RFC3339)'),
+          tool: z.string().optional().describe('Only calls of this tool, e.g. "delete_honeybadger_project"'),
+          project_id: z.number().optional().describe('Only calls that targeted this project'),
+          outcome: z.enum(['success', 'error']).optional().describe('Only successful or failed calls'),
+          limit: z.number().min(1).max(500).default(50).describe('Maximum entries to return (max 500)'),
+          ...outputParams,
+        },
+      },
+      async ({ since, until, tool, project_id, outcome, limit = 50, ...output }) => {
+        try {
+          if (!this.auditLog) {
+            return this.toolError('Audit logging is disabled (HONEYBADGER_AUDIT_LOG=false).');
+          }
+          const { entries, total, skipped } = this.auditLog.query({
+            since: this.parseTimestamp(since),
+            until: this.parseTimestamp(until),
+            tool,
+            projectId: project_id,
+            outcome,
+            limit,
+          });
+          const notes = [`Audit log: ${this.auditLog.path}`];
+          if (skipped > 0) notes.push(`${skipped} unreadable lines skipped`);
+          return this.formatListResponse(entries, { total, note: notes.join('. ') }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Projects ─────────────────────────────────────────────────────────────
+
+    this.registerTool(
       'list_honeybadger_projects',
       {
         description: 'List all Honeybadger projects you have access to',
@@ -222,24 +1472,38 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           destructiveHint: false,
         },
         inputSchema: {
-          account_id: z.string().optional().describe('Optional account ID to filter projects by specific account'),
+          account_id: pathIdParam.optional().describe('Optional account ID to filter projects by specific account'),
           page: z.number().min(1).default(1).describe('Page number'),
           per_page: z.number().min(1).max(100).default(20).describe('Results per page (max 100)'),
+          max_results: z.number().min(1).max(500).optional()
+            .describe('Fetch pages until this many projects are collected (max 500). Overrides page/per_page.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ account_id, page = 1, per_page = 20 }) => {
+      async ({ account_id, page = 1, per_page = 20, max_results, cursor, bypass_cache = false, ...output }) => {
         try {
-          const params: any = { page, per_page: Math.min(per_page, 100) };
+          const params: any = max_results ? { per_page: 100 } : { page, per_page: Math.min(per_page, 100) };
           const endpoint = account_id ? `/accounts/${account_id}/projects` : '/projects';
-          const data = await this.makeHoneybadgerRequest(endpoint, { params });
-          return this.formatListResponse(data.results || [], { total: data.total_count, page, per_page });
+          const { items, total, nextCursor } = await this.collectPages(endpoint, params, {
+            maxResults: max_results ?? per_page,
+            cursor,
+            bypassCache: bypass_cache,
+          });
+          return this.formatListResponse(items, {
+            total,
+            page: max_results || cursor ? undefined : page,
+            per_page,
+            next_cursor: nextCursor,
+          }, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_project',
       {
         description: 'Get detailed information about a specific Honeybadger project',
@@ -250,19 +1514,21 @@ All IDs (project_id, fault_id) are integers, not strings.`,
         },
         inputSchema: {
           id: z.number().min(1).describe('The project ID to fetch'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ id }) => {
+      async ({ id, bypass_cache = false, ...output }) => {
         try {
-          const data = await this.makeHoneybadgerRequest(`/projects/${id}`);
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(`/projects/${id}`, { bypassCache: bypass_cache });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_project_occurrence_counts',
       {
         description: 'Get occurrence counts for all projects or a specific project',
@@ -275,24 +1541,26 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           project_id: z.number().min(1).optional().describe('Optional project ID to get counts for specific project'),
           period: z.enum(['hour', 'day', 'week', 'month']).default('hour').describe('Time period for grouping data'),
           environment: z.string().optional().describe('Filter by environment'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ project_id, period = 'hour', environment }) => {
+      async ({ project_id, period = 'hour', environment, bypass_cache = false, ...output }) => {
         try {
           const params: any = { period };
           if (environment) params.environment = environment;
           const endpoint = project_id
             ? `/projects/${project_id}/occurrences`
             : `/projects/occurrences`;
-          const data = await this.makeHoneybadgerRequest(endpoint, { params });
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(endpoint, { params, bypassCache: bypass_cache });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_project_integrations',
       {
         description: 'Get a list of integrations (channels) for a Honeybadger project',
@@ -303,20 +1571,22 @@ All IDs (project_id, fault_id) are integers, not strings.`,
         },
         inputSchema: {
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ project_id }) => {
+      async ({ project_id, bypass_cache = false, ...output }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/integrations`);
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/integrations`, { bypassCache: bypass_cache });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_project_report',
       {
         description: 'Get report data for a Honeybadger project',
@@ -332,26 +1602,174 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           start: z.string().optional().describe('Start date/time in RFC3339 format for the beginning of the reporting period'),
           stop: z.string().optional().describe('Stop date/time in RFC3339 format for the end of the reporting period'),
           environment: z.string().optional().describe('Environment name to filter results'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ project_id, report, start, stop, environment }) => {
+      async ({ project_id, report, start, stop, environment, bypass_cache = false, ...output }) => {
         try {
           const pid = this.resolveProjectId(project_id);
           const params: any = {};
           if (start) params.start = this.parseTimestamp(start);
           if (stop) params.stop = this.parseTimestamp(stop);
           if (environment) params.environment = environment;
-          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/reports/${report}`, { params });
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/reports/${report}`, {
+            params,
+            bypassCache: bypass_cache,
+          });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    // ── Faults ────────────────────────────────────────────────────────────────
+    // ── Accounts & teams ─────────────────────────────────────────────────────
 
-    this.server.registerTool(
+    this.registerTool(
+      'list_honeybadger_accounts',
+      {
+        description: 'List the Honeybadger accounts you belong to (use the IDs as account_id in other tools)',
+        annotations: {
+          title: 'List Accounts',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ bypass_cache = false, ...output }) => {
+        try {
+          const data = await this.makeHoneybadgerRequest('/accounts', { bypassCache: bypass_cache });
+          return this.formatListResponse(Array.isArray(data) ? data : (data.results || []), undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_account_users',
+      {
+        description: 'List users in an account with their IDs and roles. Use the IDs as assignee_id when assigning faults.',
+        annotations: {
+          title: 'List Account Users',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          account_id: pathIdParam.describe('The account ID (discover via list_honeybadger_accounts)'),
+          q: z.string().optional().describe('Only return users whose name or email contains this string (case-insensitive)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ account_id, q, bypass_cache = false, ...output }) => {
+        try {
+          const data = await this.makeHoneybadgerRequest(`/accounts/${account_id}/users`, { bypassCache: bypass_cache });
+          let users: any[] = Array.isArray(data) ? data : (data.results || []);
+          if (q) {
+            const needle = q.toLowerCase();
+            users = users.filter((u) =>
+              [u.name, u.email].some((field) => typeof field === 'string' && field.toLowerCase().includes(needle))
+            );
+          }
+          return this.formatListResponse(users, undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_teams',
+      {
+        description: 'List teams in an account',
+        annotations: {
+          title: 'List Teams',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          account_id: pathIdParam.describe('The account ID (discover via list_honeybadger_accounts)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ account_id, bypass_cache = false, ...output }) => {
+        try {
+          const data = await this.makeHoneybadgerRequest('/teams', { params: { account_id }, bypassCache: bypass_cache });
+          return this.formatListResponse(Array.isArray(data) ? data : (data.results || []), undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_team_members',
+      {
+        description: 'List the members of a team with their user IDs, names, emails and admin status',
+        annotations: {
+          title: 'List Team Members',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          team_id: z.number().min(1).describe('The team ID (discover via list_honeybadger_teams)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ team_id, bypass_cache = false, ...output }) => {
+        try {
+          const data = await this.makeHoneybadgerRequest(`/teams/${team_id}/team_members`, { bypassCache: bypass_cache });
+          return this.formatListResponse(Array.isArray(data) ? data : (data.results || []), undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_team_projects',
+      {
+        description: 'List the projects a team has access to. Useful for finding which team owns a fault\'s project.',
+        annotations: {
+          title: 'List Team Projects',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          team_id: z.number().min(1).describe('The team ID (discover via list_honeybadger_teams)'),
+          account_id: pathIdParam.optional().describe('Limit the project scan to this account'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ team_id, account_id, bypass_cache = false, ...output }) => {
+        try {
+          // Projects carry their teams, so scan accessible projects rather than the team
+          const endpoint = account_id ? `/accounts/${account_id}/projects` : '/projects';
+          const { items: projects } = await this.collectPages(endpoint, { per_page: 100 }, {
+            maxResults: 1000,
+            bypassCache: bypass_cache,
+          });
+          const teamProjects = projects
+            .filter((p) => (p.teams || []).some((t: any) => Number(t.id) === team_id))
+            .map((p) => ({ id: p.id, name: p.name, environments: p.environments, unresolved_fault_count: p.unresolved_fault_count }));
+          return this.formatListResponse(teamProjects, undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Faults ────────────────────────────────────────────────────────────────
+
+    this.registerTool(
       'list_honeybadger_faults',
       {
         description: 'Get a list of faults for a project with optional filtering and ordering',
@@ -369,25 +1787,42 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           limit: z.number().min(1).max(25).default(20).describe('Maximum number of faults to return (max 25)'),
           order: z.enum(['recent', 'frequent']).default('recent').describe('Order results by recent or frequent'),
           page: z.number().min(1).default(1).describe('Page number for pagination'),
+          max_results: z.number().min(1).max(250).optional()
+            .describe('Follow pagination until this many faults are collected (max 250). Overrides limit/page.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ project_id, q, created_after, occurred_after, occurred_before, limit = 20, order = 'recent', page = 1 }) => {
+      async ({
+        project_id, q, created_after, occurred_after, occurred_before,
+        limit = 20, order = 'recent', page = 1, max_results, cursor, bypass_cache = false, ...output
+      }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-          const params: any = { limit: Math.min(limit, 25), order, page };
+          const params: any = max_results ? { limit: 25, order } : { limit: Math.min(limit, 25), order, page };
           if (q) params.q = q;
           if (created_after) params.created_after = this.parseTimestamp(created_after);
           if (occurred_after) params.occurred_after = this.parseTimestamp(occurred_after);
           if (occurred_before) params.occurred_before = this.parseTimestamp(occurred_before);
-          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults`, { params });
-          return this.formatListResponse(data.results || [], { total: data.total_count, page, per_page: limit });
+          const { items, total, nextCursor } = await this.collectPages(`/projects/${pid}/faults`, params, {
+            maxResults: max_results ?? limit,
+            cursor,
+            bypassCache: bypass_cache,
+          });
+          return this.formatListResponse(items, {
+            total,
+            page: max_results || cursor ? undefined : page,
+            per_page: limit,
+            next_cursor: nextCursor,
+          }, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_fault',
       {
         description: 'Fetch a specific fault/error from Honeybadger by ID',
@@ -399,20 +1834,24 @@ All IDs (project_id, fault_id) are integers, not strings.`,
         inputSchema: {
           fault_id: z.number().min(1).describe('The ID of the fault to fetch'),
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ fault_id, project_id }) => {
+      async ({ fault_id, project_id, bypass_cache = false, ...output }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}`);
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}`, {
+            bypassCache: bypass_cache,
+          });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'get_honeybadger_fault_counts',
       {
         description: 'Get fault count statistics for a project with optional filtering',
@@ -427,9 +1866,11 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           created_after: z.string().optional().describe('Filter faults created after this timestamp (RFC3339)'),
           occurred_after: z.string().optional().describe('Filter faults that occurred after this timestamp (RFC3339)'),
           occurred_before: z.string().optional().describe('Filter faults that occurred before this timestamp (RFC3339)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ project_id, q, created_after, occurred_after, occurred_before }) => {
+      async ({ project_id, q, created_after, occurred_after, occurred_before, bypass_cache = false, ...output }) => {
         try {
           const pid = this.resolveProjectId(project_id);
           const params: any = {};
@@ -437,18 +1878,21 @@ All IDs (project_id, fault_id) are integers, not strings.`,
           if (created_after) params.created_after = this.parseTimestamp(created_after);
           if (occurred_after) params.occurred_after = this.parseTimestamp(occurred_after);
           if (occurred_before) params.occurred_before = this.parseTimestamp(occurred_before);
-          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/summary`, { params });
-          return this.formatJsonResponse(data);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/summary`, {
+            params,
+            bypassCache: bypass_cache,
+          });
+          return this.formatJsonResponse(data, output);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
+    this.registerTool(
       'list_honeybadger_fault_notices',
       {
-        description: 'Fetch notices (occurrences) for a specific fault',
+        description: 'Fetch notices (occurrences) for a specific fault, newest first, with optional time window and text filters',
         annotations: {
           title: 'List Fault Notices',
           readOnlyHint: true,
@@ -457,264 +1901,1550 @@ All IDs (project_id, fault_id) are integers, not strings.`,
         inputSchema: {
           fault_id: z.number().min(1).describe('The ID of the fault to fetch notices for'),
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          created_after: z.string().optional().describe('Only notices created after this timestamp (RFC3339)'),
+          created_before: z.string().optional()
+            .describe('Only notices created before this timestamp (RFC3339); pass the oldest created_at seen to page backwards'),
+          q: z.string().optional()
+            .describe('Case-insensitive text that must appear in the (redacted) notice, e.g. a param value or URL path'),
           limit: z.number().min(1).max(25).default(10).describe('Number of notices to fetch (max 25)'),
+          max_results: z.number().min(1).max(100).optional()
+            .describe('Follow pagination until this many notices are collected (max 100). Overrides limit.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          max_frames: maxFramesParam,
+          ...outputParams,
+        },
+      },
+      async ({
+        fault_id, project_id, created_after, created_before, q,
+        limit = 10, max_results, cursor, bypass_cache = false, ...output
+      }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const params: any = { limit: max_results || q ? 25 : Math.min(limit, 25) };
+          if (created_after) params.created_after = this.parseTimestamp(created_after);
+          if (created_before) params.created_before = this.parseTimestamp(created_before);
+          // The notices API has no search, so q is matched here against redacted
+          // notices; matching raw data would let a query probe redacted values.
+          const needle = q?.toLowerCase();
+          const { items, total, nextCursor } = await this.collectPages(`/projects/${pid}/faults/${fault_id}/notices`, params, {
+            maxResults: max_results ?? limit,
+            cursor,
+            bypassCache: bypass_cache,
+            filter: needle
+              ? (notice) => JSON.stringify(this.redactNotices(notice).data).toLowerCase().includes(needle)
+              : undefined,
+            maxPages: needle ? NOTICE_SEARCH_MAX_PAGES : undefined,
+          });
+          const redacted = this.redactNotices(items);
+          return this.formatListResponse(redacted.data, {
+            total: needle ? undefined : total,
+            next_cursor: nextCursor,
+            note: redacted.summary,
+          }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_notice',
+      {
+        description: 'Fetch a single notice (occurrence) of a fault by its ID, with backtrace and request context',
+        annotations: {
+          title: 'Get Notice',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault the notice belongs to'),
+          notice_id: z.string().min(1).describe('The notice ID (UUID)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          max_frames: maxFramesParam,
+          ...outputParams,
+        },
+      },
+      async ({ fault_id, notice_id, project_id, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const notice = await this.fetchNotice(pid, fault_id, notice_id, NOTICE_SEARCH_MAX_PAGES, bypass_cache);
+          const redacted = this.redactNotices(notice);
+          const response = this.formatJsonResponse(redacted.data, output);
+          if (redacted.summary) response.content[0].text = `${redacted.summary}\n\n${response.content[0].text}`;
+          return response;
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'compare_honeybadger_notices',
+      {
+        description: 'Compare several notices of a fault and report which context, params, session and request fields are constant versus varying. The varying fields usually point at the triggering input.',
+        annotations: {
+          title: 'Compare Notices',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault whose notices to compare'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          notice_ids: z.array(z.string()).min(2).max(25).optional()
+            .describe('Specific notice IDs to compare (defaults to the most recent notices)'),
+          limit: z.number().min(2).max(50).default(10).describe('Number of recent notices to compare when notice_ids is omitted (max 50)'),
+          created_after: z.string().optional().describe('Only compare notices created after this timestamp (RFC3339)'),
+          created_before: z.string().optional().describe('Only compare notices created before this timestamp (RFC3339)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+        },
+      },
+      async ({ fault_id, project_id, notice_ids, limit = 10, created_after, created_before, bypass_cache = false }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          let notices: HoneybadgerNotice[];
+          if (notice_ids) {
+            notices = await Promise.all(
+              notice_ids.map((id) => this.fetchNotice(pid, fault_id, id, NOTICE_SEARCH_MAX_PAGES, bypass_cache))
+            );
+          } else {
+            const params: any = { limit: 25 };
+            if (created_after) params.created_after = this.parseTimestamp(created_after);
+            if (created_before) params.created_before = this.parseTimestamp(created_before);
+            ({ items: notices } = await this.collectPages(`/projects/${pid}/faults/${fault_id}/notices`, params, {
+              maxResults: limit,
+              bypassCache: bypass_cache,
+            }));
+          }
+          if (notices.length < 2) {
+            return this.toolError(`Need at least 2 notices to compare; fault ${fault_id} returned ${notices.length}.`);
+          }
+          const redacted = this.redactNotices(notices);
+          const diff = { fault_id, ...diffNotices(redacted.data) };
+          const response = this.formatJsonResponse(diff);
+          if (redacted.summary) response.content[0].text = `${redacted.summary}\n\n${response.content[0].text}`;
+          return response;
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_fault_affected_users',
+      {
+        description: 'Get a list of users who were affected by a specific fault with occurrence counts',
+        annotations: {
+          title: 'List Fault Affected Users',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          fault_id: z.number().min(1).describe('The fault ID'),
+          q: z.string().optional().describe('Search string to filter affected users'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
         },
       },
-      async ({ fault_id, project_id, limit = 10 }) => {
+      async ({ project_id, fault_id, q, bypass_cache = false, ...output }) => {
         try {
           const pid = this.resolveProjectId(project_id);
+          const params: any = {};
+          if (q) params.q = q;
           const data = await this.makeHoneybadgerRequest(
-            `/projects/${pid}/faults/${fault_id}/notices`,
-            { params: { limit: Math.min(limit, 25) } }
+            `/projects/${pid}/faults/${fault_id}/affected_users`,
+            { params, bypassCache: bypass_cache }
           );
-          return this.formatListResponse(data.results || [], { total: data.total_count });
+          const items = Array.isArray(data) ? data : (data.results || []);
+          const redacted = this.redactNotices(items);
+          return this.formatListResponse(redacted.data, { note: redacted.summary }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_backtrace',
+      {
+        description: 'Classify the backtrace of a notice into application, library and framework frames, collapse library runs and identify the first application frame as the likely culprit',
+        annotations: {
+          title: 'Get Normalized Backtrace',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault'),
+          notice_id: z.string().optional().describe('Notice ID (defaults to the most recent notice)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          collapse: z.boolean().default(true).describe('Fold consecutive library/framework frames into one entry'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+        },
+      },
+      async ({ fault_id, notice_id, project_id, collapse = true, bypass_cache = false }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const notice = await this.fetchNoticeOrLatest(pid, fault_id, notice_id, bypass_cache);
+          const normalized = this.frameClassifier.normalize(notice.backtrace);
+          const frames = collapse
+            ? normalized.frames
+            : (notice.backtrace || []).map((frame, index) => ({ ...frame, index, kind: this.frameClassifier.classify(frame) }));
+          return this.formatJsonResponse({
+            notice_id: notice.id,
+            culprit: normalized.culprit ?? null,
+            counts: normalized.counts,
+            frames,
+          });
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_notice_source',
+      {
+        description: 'Map backtrace frames of a notice to files in a local checkout (HONEYBADGER_WORKSPACE_ROOT) and return the surrounding code, flagging frames whose file is gone or whose line changed. Can read files at the deploy revision via git.',
+        annotations: {
+          title: 'Get Notice Source',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault'),
+          notice_id: z.string().optional().describe('Notice ID (defaults to the most recent notice)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          max_frames: z.number().min(1).max(50).default(10).describe('Backtrace frames to resolve, from the top (max 50)'),
+          use_deploy_revision: z.boolean().default(true)
+            .describe("Read files at the notice's deploy revision from the local git repository when available"),
+          revision: z.string().optional().describe('Explicit git revision to read files at (overrides the deploy revision)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+        },
+      },
+      async ({
+        fault_id, notice_id, project_id, max_frames = 10, use_deploy_revision = true, revision, bypass_cache = false,
+      }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const notice = await this.fetchNoticeOrLatest(pid, fault_id, notice_id, bypass_cache);
+          const source = await this.resolveNoticeSource(notice, max_frames, { useRevision: use_deploy_revision, revision });
+          const mapped = source.frames.filter((f) => f.status !== 'unmapped').length;
+          let text = `Notice ${notice.id}: ${mapped} of ${source.frames.length} frames mapped to the local checkout`;
+          if (source.revision) text += ` (revision ${source.revision})`;
+          text += `\n\n${formatResolvedFrames(source.frames) || 'No frames matched [PROJECT_ROOT] or HONEYBADGER_PATH_REWRITES.'}`;
+          return {
+            content: [{ type: 'text' as const, text: truncateText(text, this.config.maxResponseChars) }],
+          };
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'cluster_honeybadger_faults',
+      {
+        description: 'Group related faults that likely share a root cause, within one project or across several. Faults are fingerprinted by error class, message template (numbers/UUIDs stripped) and application backtrace frames; clusters are ranked by total notices.',
+        annotations: {
+          title: 'Cluster Similar Faults',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_ids: z.array(z.number().min(1)).max(10).optional()
+            .describe('Projects to cluster across (defaults to HONEYBADGER_PROJECT_ID)'),
+          q: z.string().optional().describe('Search string to select faults (e.g., "-is:resolved environment:production")'),
+          occurred_after: z.string().optional().describe('Only faults that occurred after this timestamp (RFC3339)'),
+          max_faults: z.number().min(1).max(250).default(100).describe('Maximum faults to fetch per project (max 250)'),
+          backtrace_faults: z.number().min(0).max(100).default(25)
+            .describe('Fetch the latest notice of this many of the busiest faults to compare backtraces (0 = messages only, max 100)'),
+          min_cluster_size: z.number().min(1).default(2).describe('Only return clusters with at least this many faults'),
+          limit: z.number().min(1).max(100).default(20).describe('Maximum clusters to return (max 100)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({
+        project_ids, q, occurred_after, max_faults = 100, backtrace_faults = 25,
+        min_cluster_size = 2, limit = 20, bypass_cache = false, ...output
+      }) => {
+        try {
+          const pids = project_ids?.length ? project_ids : [this.resolveProjectId()];
+          const filters = this.buildFaultFilterParams({ q, occurred_after });
+          const faults = (await Promise.all(
+            pids.map(async (pid) => (await this.collectFaults(pid, filters, max_faults, bypass_cache))
+              .map((fault) => ({ ...fault, project_id: fault.project_id ?? pid })))
+          )).flat();
+
+          // Sequential on purpose: one notice per fault adds up quickly against the rate limit
+          const inputs: ClusterInput[] = faults.map((fault) => ({ fault }));
+          const busiest = [...inputs]
+            .sort((a, b) => (b.fault.notices_count || 0) - (a.fault.notices_count || 0))
+            .slice(0, backtrace_faults);
+          for (const input of busiest) {
+            const data = await this.makeHoneybadgerRequest(
+              `/projects/${input.fault.project_id}/faults/${input.fault.id}/notices`,
+              { params: { limit: 1 }, bypassCache: bypass_cache }
+            ).catch(() => undefined);
+            input.backtrace = data?.results?.[0]?.backtrace;
+          }
+
+          const clusters = clusterFaults(inputs, this.frameClassifier)
+            .filter((c) => c.fault_count >= min_cluster_size);
+          const note = `Fingerprinted ${faults.length} faults from ${pids.length} project(s), `
+            + `${busiest.filter((i) => i.backtrace).length} with backtraces; ${clusters.length} clusters of ${min_cluster_size}+ faults`;
+          return this.formatListResponse(clusters.slice(0, limit), { total: clusters.length, note }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_trending_faults',
+      {
+        description: "Rank a project's fastest-growing faults: compares each fault's occurrences in the last window with the window before it, from notice timestamps",
+        annotations: {
+          title: 'List Trending Faults',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          window_hours: z.number().min(1).max(168).default(24)
+            .describe('Length of the current window; it is compared with the same length before it (max 168)'),
+          q: z.string().optional().describe('Search string to select faults (e.g., "environment:production")'),
+          candidates: z.number().min(1).max(100).default(25)
+            .describe('Most frequent faults active in the window to examine (max 100)'),
+          max_notices: z.number().min(25).max(1000).default(200)
+            .describe(`Notices to fetch per fault (max 1000), lowered so all candidates share ${TRENDING_MAX_NOTICE_PAGES * NOTICE_PAGE_SIZE} notices; busier faults are marked truncated`),
+          limit: z.number().min(1).max(50).default(10).describe('Maximum faults to return (max 50)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({
+        project_id, window_hours = 24, q, candidates = 25, max_notices = 200, limit = 10, bypass_cache = false, ...output
+      }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const since = new Date(Date.now() - window_hours * 60 * 60 * 1000).toISOString();
+          const filters = { ...this.buildFaultFilterParams({ q, occurred_after: since }), order: 'frequent' };
+          const faults = await this.collectFaults(pid, filters, candidates, bypass_cache);
+          const pagesPerFault = Math.max(1, Math.floor(TRENDING_MAX_NOTICE_PAGES / Math.max(faults.length, 1)));
+          const maxNotices = Math.min(max_notices, pagesPerFault * NOTICE_PAGE_SIZE);
+
+          // Sequential on purpose: each fault pages through its notices
+          const rows: any[] = [];
+          for (const fault of faults) {
+            const trend = await this.faultTrend(pid, fault.id, window_hours * 2, {
+              maxNotices,
+              bypassCache: bypass_cache,
+            });
+            const { previous, current, change_pct } = trend.growth;
+            if (current <= previous) continue;
+            rows.push({
+              fault_id: fault.id,
+              klass: fault.klass,
+              message: fault.message,
+              environment: fault.environment,
+              previous,
+              current,
+              increase: current - previous,
+              change_pct,
+              spikes: trend.spikes.length,
+              truncated: trend.truncated,
+              url: fault.url,
+            });
+          }
+          rows.sort((a, b) => b.increase - a.increase);
+          const note = `Last ${window_hours}h vs the ${window_hours}h before; ${rows.length} of ${faults.length} active faults are growing`
+            + (rows.some((r) => r.truncated)
+              ? `. Truncated rows hit the limit of ${maxNotices} notices per fault and compare a shorter span.`
+              : '');
+          return this.formatListResponse(rows.slice(0, limit), { note }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Deploys ───────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'list_honeybadger_deploys',
+      {
+        description: 'List deploys recorded for a project with optional filtering',
+        annotations: {
+          title: 'List Deploys',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          environment: z.string().optional().describe('Filter by environment (e.g., "production")'),
+          revision: z.string().optional().describe('Filter by revision (prefix match, so short SHAs work)'),
+          local_username: z.string().optional().describe('Filter by the user who deployed'),
+          created_after: z.string().optional().describe('Filter deploys created after this timestamp (RFC3339)'),
+          created_before: z.string().optional().describe('Filter deploys created before this timestamp (RFC3339)'),
+          limit: z.number().min(1).max(25).default(25).describe('Maximum number of deploys to return (max 25)'),
+          max_results: z.number().min(1).max(250).optional()
+            .describe('Follow pagination until this many deploys are collected (max 250). Overrides limit.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({
+        project_id, environment, revision, local_username, created_after, created_before,
+        limit = 25, max_results, cursor, bypass_cache = false, ...output
+      }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const params: any = { limit: Math.min(limit, 25) };
+          if (environment) params.environment = environment;
+          if (local_username) params.local_username = local_username;
+          if (created_after) params.created_after = this.parseTimestamp(created_after);
+          if (created_before) params.created_before = this.parseTimestamp(created_before);
+          const { items, total, nextCursor } = await this.collectPages(`/projects/${pid}/deploys`, params, {
+            maxResults: max_results ?? limit,
+            cursor,
+            bypassCache: bypass_cache,
+            // The API has no revision filter, so match it here across pages
+            filter: revision ? (deploy: HoneybadgerDeploy) => Boolean(deploy.revision?.startsWith(revision)) : undefined,
+            maxPages: revision ? DEPLOY_SEARCH_MAX_PAGES : undefined,
+          });
+          const note = revision && nextCursor && items.length < (max_results ?? limit)
+            ? `Searched ${DEPLOY_SEARCH_MAX_PAGES} pages of deploys for revision "${revision}". Older deploys were not searched; continue with the cursor to search them.`
+            : undefined;
+          return this.formatListResponse(items, { total: revision ? undefined : total, next_cursor: nextCursor, note }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_deploy',
+      {
+        description: 'Get details for a specific deploy',
+        annotations: {
+          title: 'Get Deploy',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          deploy_id: z.number().min(1).describe('The ID of the deploy to fetch'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ deploy_id, project_id, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/deploys/${deploy_id}`, {
+            bypassCache: bypass_cache,
+          });
+          return this.formatJsonResponse(data, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_faults_since_deploy',
+      {
+        description: 'Correlate faults with a deploy: lists faults first seen or re-appearing after the deploy, compared to an equal window before it. Defaults to the latest deploy.',
+        annotations: {
+          title: 'Faults Since Deploy',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          deploy_id: z.number().min(1).optional().describe('Deploy ID (defaults to the most recent deploy)'),
+          environment: z.string().optional().describe('Environment used to pick the most recent deploy when deploy_id is omitted'),
+          window_hours: z.number().min(1).max(168).default(24).describe('Hours to compare before and after the deploy (max 168)'),
+          max_faults: z.number().min(1).max(200).default(100).describe('Maximum faults to fetch per window (max 200)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+        },
+      },
+      async ({ project_id, deploy_id, environment, window_hours = 24, max_faults = 100, bypass_cache = false }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const deploy = await this.fetchDeploy(pid, deploy_id, environment, bypass_cache);
+          const correlation = await this.correlateDeployFaults(pid, deploy, window_hours, max_faults, bypass_cache);
+          return {
+            content: [{
+              type: 'text' as const,
+              text: truncateText(this.formatDeployCorrelation(correlation), this.config.maxResponseChars),
+            }],
+          };
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Check-ins ─────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'list_honeybadger_check_ins',
+      {
+        description: 'List check-ins (cron/scheduled job monitors) for a project with their current state, last check-in and missed schedules',
+        annotations: {
+          title: 'List Check-ins',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          state: z.enum(['pending', 'reporting', 'missing']).optional()
+            .describe('Only return check-ins in this state ("missing" = missed its schedule)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ project_id, state, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/check_ins`, { bypassCache: bypass_cache });
+          let checkIns: any[] = Array.isArray(data) ? data : (data.results || []);
+          if (state) checkIns = checkIns.filter((c) => c.state === state);
+          return this.formatListResponse(checkIns, undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_check_in',
+      {
+        description: 'Get details for a specific check-in, including its schedule, state and when it last reported',
+        annotations: {
+          title: 'Get Check-in',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          check_in_id: pathIdParam.describe('The check-in ID (e.g., "pBiXY6")'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ check_in_id, project_id, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/check_ins/${check_in_id}`, {
+            bypassCache: bypass_cache,
+          });
+          return this.formatJsonResponse(data, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Uptime ────────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'list_honeybadger_uptime_sites',
+      {
+        description: 'List uptime-monitored sites for a project with their current state (up/down)',
+        annotations: {
+          title: 'List Uptime Sites',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          state: z.enum(['up', 'down']).optional().describe('Only return sites in this state'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ project_id, state, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/sites`, { bypassCache: bypass_cache });
+          let sites: any[] = Array.isArray(data) ? data : (data.results || []);
+          if (state) sites = sites.filter((site) => site.state === state);
+          return this.formatListResponse(sites, undefined, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'get_honeybadger_uptime_site',
+      {
+        description: 'Get details and current state for a specific uptime site',
+        annotations: {
+          title: 'Get Uptime Site',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          site_id: pathIdParam.describe('The uptime site ID (UUID)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ site_id, project_id, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/sites/${site_id}`, { bypassCache: bypass_cache });
+          return this.formatJsonResponse(data, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_uptime_outages',
+      {
+        description: 'List outages recorded for an uptime site',
+        annotations: {
+          title: 'List Uptime Outages',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          site_id: pathIdParam.describe('The uptime site ID (UUID)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          created_after: z.string().optional().describe('Only outages that started after this timestamp (RFC3339)'),
+          created_before: z.string().optional().describe('Only outages that started before this timestamp (RFC3339)'),
+          limit: z.number().min(1).max(25).default(25).describe('Maximum number of outages to return (max 25)'),
+          max_results: z.number().min(1).max(250).optional()
+            .describe('Follow pagination until this many outages are collected (max 250). Overrides limit.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ site_id, project_id, created_after, created_before, limit = 25, max_results, cursor, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const params = this.buildTimeRangeParams(created_after, created_before, max_results ? 25 : Math.min(limit, 25));
+          const { items, nextCursor } = await this.collectPages(`/projects/${pid}/sites/${site_id}/outages`, params, {
+            maxResults: max_results ?? limit,
+            cursor,
+            bypassCache: bypass_cache,
+          });
+          return this.formatListResponse(items, { next_cursor: nextCursor }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_uptime_checks',
+      {
+        description: 'List recent uptime checks (individual probes with location, status and response time) for an uptime site',
+        annotations: {
+          title: 'List Uptime Checks',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          site_id: pathIdParam.describe('The uptime site ID (UUID)'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          created_after: z.string().optional().describe('Only checks performed after this timestamp (RFC3339)'),
+          created_before: z.string().optional().describe('Only checks performed before this timestamp (RFC3339)'),
+          limit: z.number().min(1).max(25).default(25).describe('Maximum number of checks to return (max 25)'),
+          max_results: z.number().min(1).max(250).optional()
+            .describe('Follow pagination until this many checks are collected (max 250). Overrides limit.'),
+          cursor: z.string().optional().describe('Opaque cursor from a previous call (next_cursor) to continue the listing'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+          ...outputParams,
+        },
+      },
+      async ({ site_id, project_id, created_after, created_before, limit = 25, max_results, cursor, bypass_cache = false, ...output }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const params = this.buildTimeRangeParams(created_after, created_before, max_results ? 25 : Math.min(limit, 25));
+          const { items, nextCursor } = await this.collectPages(`/projects/${pid}/sites/${site_id}/uptime_checks`, params, {
+            maxResults: max_results ?? limit,
+            cursor,
+            bypassCache: bypass_cache,
+          });
+          return this.formatListResponse(items, { next_cursor: nextCursor }, output);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Analytics ─────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'query_honeybadger_insights',
+      {
+        description: "Execute a BadgerQL query against Insights data. BadgerQL is Honeybadger's pipeline query language "
+          + '(fields, filter, stats, sort, limit stages). The query is syntax-checked first; see validate_honeybadger_insights_query '
+          + 'and list_honeybadger_insights_fields.',
+        annotations: {
+          title: 'Query Insights (BadgerQL)',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          query: z.string().min(1)
+            .describe('BadgerQL query string, e.g. filter event_type::str == "notice" | stats count() by class::str'),
+          ts: z.string().optional().describe('Time range - shortcuts like "today", "week", or ISO 8601 duration (e.g., "PT3H"). Defaults to PT3H.'),
+          timezone: z.string().optional().describe('IANA timezone identifier (e.g., "America/New_York") for timestamp interpretation'),
+          validate: z.boolean().default(true).describe('Check the query syntax locally and return the errors instead of running it'),
+          format: insightsFormatParam.default('json'),
+        },
+      },
+      async ({ project_id, query, ts, timezone, validate = true, format = 'json' }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          if (validate) {
+            const check = checkBadgerQL(query);
+            if (!check.valid) return { ...this.formatQueryCheck(query, check), isError: true as const };
+          }
+          const result = await this.runInsightsQuery(pid, query, ts, timezone);
+          return this.formatInsightsResponse(result, format);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'validate_honeybadger_insights_query',
+      {
+        description: 'Check a BadgerQL query for syntax errors without running it, and explain what each stage does. '
+          + 'Catches unknown commands, SQL syntax, unbalanced parentheses or strings and bad limit/sort arguments.',
+        annotations: {
+          title: 'Validate Insights Query',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          query: z.string().min(1).describe('BadgerQL query string'),
+        },
+      },
+      async ({ query }) => {
+        try {
+          return this.formatQueryCheck(query, checkBadgerQL(query));
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_insights_fields',
+      {
+        description: 'List the event types and fields available to BadgerQL for a project, inferred from a sample of '
+          + 'recent Insights events, with types (for ::str / ::int casts) and example values.',
+        annotations: {
+          title: 'List Insights Fields',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          event_type: z.string().optional().describe('Only sample events of this type (e.g., "notice")'),
+          ts: z.string().default('P1D').describe('Time range to sample from (e.g., "PT3H", "P1D", "week"). Defaults to P1D.'),
+          sample_size: z.number().min(1).max(500).default(INSIGHTS_SAMPLE_SIZE)
+            .describe(`Recent events to sample (default ${INSIGHTS_SAMPLE_SIZE}, max 500)`),
+        },
+      },
+      async ({ project_id, event_type, ts = 'P1D', sample_size = INSIGHTS_SAMPLE_SIZE }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const filter = event_type ? `filter event_type::str == ${JSON.stringify(event_type)}\n| ` : '';
+          const result = await this.runInsightsQuery(pid, `${filter}fields @ts, @preview\n| sort @ts desc\n| limit ${sample_size}`, ts);
+          const parse = (text: string) => {
+            try {
+              return JSON.parse(text);
+            } catch {
+              return undefined;
+            }
+          };
+          const events = toInsightsTable(result).rows
+            .map((row) => (typeof row['@preview'] === 'string' ? parse(row['@preview']) : row['@preview']))
+            .filter((event) => event && typeof event === 'object');
+          // Example values come from real events, so they are redacted like notices
+          const { value: sampled } = this.redactor.redact(events);
+          return this.formatJsonResponse({
+            project_id: pid,
+            sampled_events: sampled.length,
+            time_range: ts,
+            builtin_fields: BUILTIN_FIELDS,
+            event_types: describeEvents(sampled),
+            note: sampled.length === 0
+              ? 'No events in this time range. Try a longer ts (e.g., "P7D").'
+              : 'Fields are inferred from the sample: rare fields may be missing. Cast fields in queries by type, e.g. class::str, duration::float.',
+          });
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'list_honeybadger_saved_queries',
+      {
+        description: 'List the saved BadgerQL queries configured for this server, with their parameters and default time ranges.',
+        annotations: {
+          title: 'List Saved Queries',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {},
+      },
+      async () => {
+        try {
+          const items = this.savedQueries.list().map((saved) => {
+            // Checked with defaults, or a sample value of the right type
+            const sample = Object.fromEntries(Object.entries(saved.params)
+              .map(([param, spec]) => [param, spec.default ?? (spec.type === 'number' ? 1 : 'x')]));
+            const check = checkBadgerQL(this.savedQueries.render(saved, sample));
+            return { ...saved, valid: check.valid, ...(check.valid ? {} : { errors: check.errors.map((e) => e.message) }) };
+          });
+          const note = this.savedQueries.path
+            ? `Saved queries: ${this.savedQueries.path}. Run one with run_honeybadger_saved_query.`
+            : 'No saved queries are configured. Set HONEYBADGER_SAVED_QUERIES to a JSON file of named queries.';
+          return this.formatListResponse(items, { note });
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'run_honeybadger_saved_query',
+      {
+        description: 'Run a saved BadgerQL query by name, filling its parameters (such as the environment) and time range. '
+          + 'Results are rendered as a table by default.',
+        annotations: {
+          title: 'Run Saved Query',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          name: z.string().min(1).describe('Saved query name (see list_honeybadger_saved_queries)'),
+          project_id: z.number().min(1).optional()
+            .describe("Project ID (defaults to the saved query's project, then HONEYBADGER_PROJECT_ID)"),
+          environment: z.string().optional().describe('Value for the query\'s environment param, if it has one'),
+          params: z.record(z.union([z.string(), z.number()])).optional().describe('Values for the other query params, by name'),
+          ts: z.string().optional().describe("Time range override (e.g., \"PT3H\", \"P7D\", \"week\"); defaults to the saved query's"),
+          timezone: z.string().optional().describe('IANA timezone identifier (e.g., "America/New_York") for timestamp interpretation'),
+          format: insightsFormatParam.default('markdown'),
+        },
+      },
+      async ({ name, project_id, environment, params = {}, ts, timezone, format = 'markdown' }) => {
+        try {
+          const saved = this.savedQueries.get(name);
+          const pid = this.resolveProjectId(project_id ?? saved.project_id);
+          const query = this.savedQueries.render(saved, { ...params, environment: params.environment ?? environment });
+          const check = checkBadgerQL(query);
+          if (!check.valid) return { ...this.formatQueryCheck(query, check), isError: true as const };
+          const range = ts ?? saved.ts;
+          const result = await this.runInsightsQuery(pid, query, range, timezone);
+          return this.formatInsightsResponse(result, format, [
+            `Saved query "${name}"${range ? `, time range ${range}` : ''}`,
+            `Query: ${query.replace(/\s*\n\s*/g, ' ')}`,
+          ]);
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── AI-powered analysis ───────────────────────────────────────────────────
+
+    this.registerTool(
+      'analyze_honeybadger_issue',
+      {
+        description: 'Comprehensive AI-powered analysis of a Honeybadger issue with fix suggestions, trend data, and affected user impact. '
+          + 'When the client supports sampling, the root-cause hypothesis and fix proposal come from the client model; '
+          + 'otherwise rule-based fix templates are used.',
+        annotations: {
+          title: 'Analyze Issue',
+          readOnlyHint: true,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault to analyze'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          include_context: z.boolean().default(true).describe('Include request context and parameters in analysis'),
+          use_sampling: z.boolean().default(true)
+            .describe('Ask the client model for a root-cause hypothesis via MCP sampling when the client supports it'),
+          bypass_cache: z.boolean().default(false).describe('Skip the response cache and fetch fresh data'),
+        },
+      },
+      async ({ fault_id, project_id, include_context = true, use_sampling = true, bypass_cache = false }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+
+          const [rawFault, noticesData] = await Promise.all([
+            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}`, { bypassCache: bypass_cache }),
+            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}/notices`, {
+              params: { limit: 5 },
+              bypassCache: bypass_cache,
+            }),
+          ]);
+
+          // One list, so the fault and each notice are redacted as top-level records
+          const redacted = this.redactNotices([rawFault, ...(noticesData.results || [])]);
+          const [fault, ...notices] = redacted.data as [HoneybadgerFault, ...HoneybadgerNotice[]];
+
+          // Fetch trend and impact data in parallel (best-effort)
+          const [trend, rawAffectedUsers] = await Promise.all([
+            this.faultTrend(pid, fault_id, ANALYSIS_TREND_HOURS, { withDeploys: true, bypassCache: bypass_cache })
+              .catch(() => null),
+            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}/affected_users`, {
+              params: { limit: 10 },
+              bypassCache: bypass_cache,
+            }).catch(() => null),
+          ]);
+          const affectedUsersData = rawAffectedUsers && this.redactNotices(rawAffectedUsers).data;
+
+          // Point at real code when a local checkout is configured (best-effort)
+          const localSource = this.sourceResolver && notices[0]
+            ? await this.resolveNoticeSource(notices[0], 5, {
+              useRevision: true,
+              startAt: this.frameClassifier.normalize(notices[0].backtrace).culprit?.index,
+            })
+              .then(({ frames }) => formatResolvedFrames(frames) || undefined)
+              .catch(() => undefined)
+            : undefined;
+
+          const facts = this.generateAnalysis(
+            fault,
+            notices,
+            include_context,
+            trend,
+            affectedUsersData,
+            redacted.summary,
+            localSource
+          );
+
+          // Fault, notices and affected users are redacted above, and sampleRootCause
+          // scrubs the assembled prompt once more; any failure falls back to templates
+          let analysis: string;
+          try {
+            if (!use_sampling) throw new Error('disabled with use_sampling: false');
+            const { hypothesis, model } = await this.sampleRootCause(facts);
+            analysis = `${facts}
+
+${formatRootCause(hypothesis, model)}
+
+---
+*Overview, stack trace, context, trend and impact come from Honeybadger fault #${fault.id}. The hypothesis and proposed fix are model-generated.*`;
+          } catch (e: any) {
+            analysis = `${facts}
+
+${this.templateFixStrategies(fault, notices)}
+
+---
+*Analysis generated from Honeybadger fault #${fault.id}. Fix strategies are rule-based templates (model sampling unavailable: ${e.message}).*`;
+          }
+
+          return {
+            content: [{ type: 'text' as const, text: truncateText(analysis, this.config.maxResponseChars) }],
+          };
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+  }
+
+  private registerWriteTools() {
+    this.registerTool(
+      'create_honeybadger_project',
+      {
+        description: 'Create a new Honeybadger project. Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Create Project',
+          readOnlyHint: false,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          account_id: pathIdParam.describe('The account ID to associate the project with (required)'),
+          name: z.string().min(1).max(255).describe('Project name (required)'),
+          resolve_errors_on_deploy: z.boolean().optional()
+            .describe('Whether all unresolved faults should be marked as resolved when a deploy is recorded'),
+          disable_public_links: z.boolean().optional()
+            .describe('Whether to allow fault details to be publicly shareable via a button on the fault detail page'),
+          user_url: z.string().optional()
+            .describe('A URL format like "http://example.com/admin/users/[user_id]" that will be displayed on the fault detail page'),
+          source_url: z.string().optional()
+            .describe('A URL format like "https://gitlab.com/username/reponame/blob/[sha]/[file]#L[line]" that is used to link lines in the backtrace to your git browser'),
+          purge_days: z.number().min(1).optional()
+            .describe('The number of days to retain data (up to the max number of days available to your subscription plan)'),
+          user_search_field: z.string().optional()
+            .describe('A field such as "context.user_email" that you provide in your error context'),
+        },
+      },
+      async ({ account_id, name, resolve_errors_on_deploy, disable_public_links, user_url, source_url, purge_days, user_search_field }) => {
+        try {
+          const data: any = { name };
+          if (resolve_errors_on_deploy !== undefined) data.resolve_errors_on_deploy = resolve_errors_on_deploy;
+          if (disable_public_links !== undefined) data.disable_public_links = disable_public_links;
+          if (user_url !== undefined) data.user_url = user_url;
+          if (source_url !== undefined) data.source_url = source_url;
+          if (purge_days !== undefined) data.purge_days = purge_days;
+          if (user_search_field !== undefined) data.user_search_field = user_search_field;
+          const result = await this.makeHoneybadgerRequest(`/projects`, {
+            method: 'POST',
+            params: account_id ? { account_id } : undefined,
+            data,
+          });
+          return this.formatWriteResponse(result, 'created project');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'update_honeybadger_project',
+      {
+        description: 'Update an existing Honeybadger project. Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Update Project',
+          readOnlyHint: false,
+          destructiveHint: false,
+        },
+        inputSchema: {
+          id: z.number().min(1).describe('The project ID to update'),
+          name: z.string().min(1).max(255).optional().describe('New project name'),
+          resolve_errors_on_deploy: z.boolean().optional()
+            .describe('Whether all unresolved faults should be marked as resolved when a deploy is recorded'),
+          disable_public_links: z.boolean().optional()
+            .describe('Whether to allow fault details to be publicly shareable via a button on the fault detail page'),
+          user_url: z.string().optional()
+            .describe('A URL format like "http://example.com/admin/users/[user_id]"'),
+          source_url: z.string().optional()
+            .describe('Git browser URL format'),
+          purge_days: z.number().min(1).optional()
+            .describe('The number of days to retain data'),
+          user_search_field: z.string().optional()
+            .describe('Field for user search (e.g., "context.user_email")'),
+        },
+      },
+      async ({ id, name, resolve_errors_on_deploy, disable_public_links, user_url, source_url, purge_days, user_search_field }) => {
+        try {
+          const data: any = {};
+          if (name) data.name = name;
+          if (resolve_errors_on_deploy !== undefined) data.resolve_errors_on_deploy = resolve_errors_on_deploy;
+          if (disable_public_links !== undefined) data.disable_public_links = disable_public_links;
+          if (user_url !== undefined) data.user_url = user_url;
+          if (source_url !== undefined) data.source_url = source_url;
+          if (purge_days !== undefined) data.purge_days = purge_days;
+          if (user_search_field !== undefined) data.user_search_field = user_search_field;
+          const result = await this.makeHoneybadgerRequest(`/projects/${id}`, { method: 'PUT', data });
+          return this.formatWriteResponse(result, 'updated project');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'delete_honeybadger_project',
+      {
+        description: 'Delete a Honeybadger project permanently. DANGEROUS - the user confirms by typing the project name '
+          + '(clients without elicitation support need confirm: true instead).',
+        annotations: {
+          title: 'Delete Project',
+          readOnlyHint: false,
+          destructiveHint: true,
+          idempotentHint: false,
+        },
+        inputSchema: {
+          id: z.number().min(1).describe('The project ID to delete'),
+          confirm: confirmParam,
+        },
+      },
+      async ({ id, confirm }) => {
+        try {
+          const project = await this.makeHoneybadgerRequest(`/projects/${id}`, { bypassCache: true });
+          const faults = project.fault_count !== undefined
+            ? ` with its ${project.fault_count} fault${project.fault_count === 1 ? '' : 's'}${project.unresolved_fault_count !== undefined ? ` (${project.unresolved_fault_count} unresolved)` : ''} and all their notices`
+            : ' with all its faults and notices';
+          await this.confirmWrite(`Permanently delete project "${project.name}" (ID ${id})${faults}?`, project, confirm);
+          await this.makeHoneybadgerRequest(`/projects/${id}`, { method: 'DELETE' });
+          return this.formatWriteResponse({ id }, 'deleted project');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Deploys ───────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'record_honeybadger_deploy',
+      {
+        description: "Record a deploy for a project via Honeybadger's reporting API. Requires HONEYBADGER_READ_ONLY=false.",
+        annotations: {
+          title: 'Record Deploy',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          environment: z.string().min(1).describe('Environment that was deployed (e.g., "production")'),
+          revision: z.string().optional().describe('VCS revision (e.g., git SHA) that was deployed'),
+          repository: z.string().optional().describe('Repository URL (e.g., "git@github.com:org/repo.git")'),
+          local_username: z.string().optional().describe('Name of the user who deployed'),
+        },
+      },
+      async ({ project_id, environment, revision, repository, local_username }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const project = await this.makeHoneybadgerRequest(`/projects/${pid}`);
+          if (!project.token) {
+            throw new Error(`Project ${pid} has no API key available to record deploys`);
+          }
+          const deploy: any = { environment };
+          if (revision) deploy.revision = revision;
+          if (repository) deploy.repository = repository;
+          if (local_username) deploy.local_username = local_username;
+          const result = await this.makeReportingRequest('/deploys', project.token, { deploy }, pid);
+          this.client.cache?.invalidate(`/projects/${pid}/deploys`);
+          return this.formatWriteResponse({ project_id: pid, deploy, response: result }, 'recorded deploy');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    // ── Faults ────────────────────────────────────────────────────────────────
+
+    this.registerTool(
+      'resolve_honeybadger_fault',
+      {
+        description: 'Mark a fault as resolved (or unresolved). Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Resolve Fault',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault to update'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          resolved: z.boolean().default(true).describe('Set to false to re-open (unresolve) the fault'),
+        },
+      },
+      async ({ fault_id, project_id, resolved = true }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const result = await this.updateFault(pid, fault_id, { resolved });
+          return this.formatWriteResponse(result || { id: fault_id, resolved }, resolved ? 'resolved fault' : 'unresolved fault');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'ignore_honeybadger_fault',
+      {
+        description: 'Ignore a fault so new occurrences no longer notify (or stop ignoring it). Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Ignore Fault',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault to update'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          ignored: z.boolean().default(true).describe('Set to false to stop ignoring the fault'),
+        },
+      },
+      async ({ fault_id, project_id, ignored = true }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const result = await this.updateFault(pid, fault_id, { ignored });
+          return this.formatWriteResponse(result || { id: fault_id, ignored }, ignored ? 'ignored fault' : 'unignored fault');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'assign_honeybadger_fault',
+      {
+        description: 'Assign a fault to a user, or clear the assignee. Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Assign Fault',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault to update'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          assignee_id: z.number().min(1).nullable().describe('User ID to assign the fault to, or null to unassign'),
+        },
+      },
+      async ({ fault_id, project_id, assignee_id }) => {
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const result = await this.updateFault(pid, fault_id, { assignee_id });
+          return this.formatWriteResponse(
+            result || { id: fault_id, assignee_id },
+            assignee_id ? `assigned fault to user ${assignee_id}` : 'unassigned fault'
+          );
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'tag_honeybadger_fault',
+      {
+        description: 'Add and/or remove tags on a fault. Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Tag Fault',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+        },
+        inputSchema: {
+          fault_id: z.number().min(1).describe('The ID of the fault to update'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          add: z.array(z.string().min(1)).optional().describe('Tags to add to the fault'),
+          remove: z.array(z.string().min(1)).optional().describe('Tags to remove from the fault'),
+        },
+      },
+      async ({ fault_id, project_id, add = [], remove = [] }) => {
+        if (add.length === 0 && remove.length === 0) {
+          return this.toolError('Provide at least one tag in add or remove');
+        }
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const fault: HoneybadgerFault = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}`, {
+            bypassCache: true,
+          });
+          const tags = Array.from(new Set([...(fault.tags || []), ...add])).filter((t) => !remove.includes(t));
+          const result = await this.updateFault(pid, fault_id, { tags });
+          return this.formatWriteResponse(result || { id: fault_id, tags }, 'updated fault tags');
+        } catch (e: any) {
+          return this.toolError(e.message);
+        }
+      }
+    );
+
+    this.registerTool(
+      'bulk_update_honeybadger_faults',
+      {
+        description: 'Apply one action (resolve, ignore, assign, tag, ...) to every fault matching a list_honeybadger_faults-style query. Reports per-fault success/failure. The user confirms the matched faults by typing the project name (clients without elicitation support need confirm: true instead). Requires HONEYBADGER_READ_ONLY=false.',
+        annotations: {
+          title: 'Bulk Update Faults',
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: false,
+        },
+        inputSchema: {
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          action: z.enum(['resolve', 'unresolve', 'ignore', 'unignore', 'assign', 'unassign', 'add_tags', 'remove_tags'])
+            .describe('The action to apply to each matching fault'),
+          assignee_id: z.number().min(1).optional().describe('User ID to assign faults to (required for the assign action)'),
+          tags: z.array(z.string().min(1)).optional().describe('Tags to add or remove (required for add_tags/remove_tags)'),
+          q: z.string().optional().describe('Search string to select faults'),
+          created_after: z.string().optional().describe('Select faults created after this timestamp (RFC3339)'),
+          occurred_after: z.string().optional().describe('Select faults that occurred after this timestamp (RFC3339)'),
+          occurred_before: z.string().optional().describe('Select faults that occurred before this timestamp (RFC3339)'),
+          all: z.boolean().default(false).describe('Select every fault in the project. Required when no q or time filter is given'),
+          max_faults: z.number().min(1).max(100).default(25).describe('Maximum number of faults to update (max 100)'),
+          confirm: confirmParam,
+        },
+      },
+      async ({
+        project_id, action, assignee_id, tags, q, created_after, occurred_after, occurred_before, all = false, max_faults = 25, confirm,
+      }) => {
+        if (!q && !created_after && !occurred_after && !occurred_before && !all) {
+          return this.toolError('Select faults with q, created_after, occurred_after or occurred_before, or pass all: true to update every fault in the project.');
+        }
+        if (action === 'assign' && !assignee_id) {
+          return this.toolError('assignee_id is required for the assign action');
+        }
+        if ((action === 'add_tags' || action === 'remove_tags') && (!tags || tags.length === 0)) {
+          return this.toolError(`tags are required for the ${action} action`);
+        }
+        try {
+          const pid = this.resolveProjectId(project_id);
+          const filters = this.buildFaultFilterParams({ q, created_after, occurred_after, occurred_before });
+          const { items: faults, total, nextCursor } = await this.collectPages(`/projects/${pid}/faults`, { ...filters, limit: 25 }, {
+            maxResults: Math.min(max_faults, 100),
+            bypassCache: true,
+          });
+          const matched = total !== undefined ? String(total) : nextCursor ? `more than ${faults.length}` : String(faults.length);
+          if (faults.length > 0) {
+            const project = await this.makeHoneybadgerRequest(`/projects/${pid}`);
+            const detail = action === 'assign' ? ` to user ${assignee_id}` : tags?.length ? ` (tags: ${tags.join(', ')})` : '';
+            const preview = faults.slice(0, BULK_CONFIRM_PREVIEW).map((f) => `- #${f.id} ${f.klass}: ${f.message}`);
+            if (faults.length > BULK_CONFIRM_PREVIEW) preview.push(`- … and ${faults.length - BULK_CONFIRM_PREVIEW} more`);
+            await this.confirmWrite(
+              `Apply "${action}"${detail} to ${faults.length} fault${faults.length === 1 ? '' : 's'} (of ${matched} matching) in project "${project.name}" (ID ${pid})?\n${preview.join('\n')}`,
+              project,
+              confirm
+            );
+          }
+
+          // Sequential on purpose: keeps us well under the API rate limit
+          const results: FaultWriteResult[] = [];
+          for (const fault of faults) {
+            try {
+              await this.applyFaultAction(pid, fault, action, { assigneeId: assignee_id, tags });
+              results.push({ fault_id: fault.id, success: true });
+            } catch (e: any) {
+              results.push({ fault_id: fault.id, success: false, error: e.message });
+            }
+          }
+          return this.formatBulkWriteResponse(results, `Bulk ${action}`, matched);
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
-      'list_honeybadger_fault_affected_users',
+    // ── Check-ins ─────────────────────────────────────────────────────────────
+
+    const checkInSchema = {
+      slug: z.string().optional().describe('Optional slug used to report the check-in by name'),
+      schedule_type: z.enum(['simple', 'cron']).optional()
+        .describe('"simple" expects a check-in every report_period; "cron" follows cron_schedule'),
+      report_period: z.string().optional().describe('Expected interval for simple check-ins (e.g., "1 hour", "1 day")'),
+      grace_period: z.string().optional().describe('How late a check-in may be before it is marked missing (e.g., "5 minutes")'),
+      cron_schedule: z.string().optional().describe('Cron expression for cron check-ins (e.g., "0 * * * *")'),
+      cron_timezone: z.string().optional().describe('IANA timezone for the cron schedule (e.g., "America/New_York")'),
+    };
+
+    this.registerTool(
+      'create_honeybadger_check_in',
       {
-        description: 'Get a list of users who were affected by a specific fault with occurrence counts',
+        description: 'Create a check-in to monitor a cron or scheduled job. Requires HONEYBADGER_READ_ONLY=false.',
         annotations: {
-          title: 'List Fault Affected Users',
-          readOnlyHint: true,
+          title: 'Create Check-in',
+          readOnlyHint: false,
           destructiveHint: false,
         },
         inputSchema: {
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
-          fault_id: z.number().min(1).describe('The fault ID'),
-          q: z.string().optional().describe('Search string to filter affected users'),
+          name: z.string().min(1).describe('Check-in name (required)'),
+          ...checkInSchema,
+          schedule_type: checkInSchema.schedule_type.default('simple'),
         },
       },
-      async ({ project_id, fault_id, q }) => {
+      async ({ project_id, name, slug, schedule_type = 'simple', report_period, grace_period, cron_schedule, cron_timezone }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-          const params: any = {};
-          if (q) params.q = q;
-          const data = await this.makeHoneybadgerRequest(
-            `/projects/${pid}/faults/${fault_id}/affected_users`,
-            { params }
-          );
-          const items = Array.isArray(data) ? data : (data.results || []);
-          return this.formatListResponse(items);
+          const data = this.buildCheckInPayload({
+            name, slug, schedule_type, report_period, grace_period, cron_schedule, cron_timezone,
+          });
+          const result = await this.makeHoneybadgerRequest(`/projects/${pid}/check_ins`, { method: 'POST', data });
+          return this.formatWriteResponse(result, 'created check-in');
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    // ── Analytics ─────────────────────────────────────────────────────────────
-
-    this.server.registerTool(
-      'query_honeybadger_insights',
+    this.registerTool(
+      'update_honeybadger_check_in',
       {
-        description: "Execute a BadgerQL query against Insights data. BadgerQL is Honeybadger's query language for error analytics.",
+        description: 'Update an existing check-in. Requires HONEYBADGER_READ_ONLY=false.',
         annotations: {
-          title: 'Query Insights (BadgerQL)',
-          readOnlyHint: true,
+          title: 'Update Check-in',
+          readOnlyHint: false,
           destructiveHint: false,
         },
         inputSchema: {
+          check_in_id: pathIdParam.describe('The check-in ID to update'),
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
-          query: z.string().min(1).describe('BadgerQL query string (e.g., "SELECT class, COUNT(*) FROM notices GROUP BY class")'),
-          ts: z.string().optional().describe('Time range - shortcuts like "today", "week", or ISO 8601 duration (e.g., "PT3H"). Defaults to PT3H.'),
-          timezone: z.string().optional().describe('IANA timezone identifier (e.g., "America/New_York") for timestamp interpretation'),
+          name: z.string().min(1).optional().describe('New check-in name'),
+          ...checkInSchema,
         },
       },
-      async ({ project_id, query, ts, timezone }) => {
+      async ({ check_in_id, project_id, name, slug, schedule_type, report_period, grace_period, cron_schedule, cron_timezone }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-          const data: any = { query };
-          if (ts) data.ts = ts;
-          if (timezone) data.timezone = timezone;
-          const result = await this.makeHoneybadgerRequest(`/projects/${pid}/insights/query`, {
-            method: 'POST',
+          const data = this.buildCheckInPayload({
+            name, slug, schedule_type, report_period, grace_period, cron_schedule, cron_timezone,
+          });
+          const result = await this.makeHoneybadgerRequest(`/projects/${pid}/check_ins/${check_in_id}`, {
+            method: 'PUT',
             data,
           });
-          return this.formatJsonResponse(result);
+          return this.formatWriteResponse(result || { id: check_in_id, ...data.check_in }, 'updated check-in');
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    // ── AI-powered analysis ───────────────────────────────────────────────────
-
-    this.server.registerTool(
-      'analyze_honeybadger_issue',
+    this.registerTool(
+      'delete_honeybadger_check_in',
       {
-        description: 'Comprehensive AI-powered analysis of a Honeybadger issue with fix suggestions, trend data, and affected user impact',
+        description: 'Delete a check-in permanently. DANGEROUS - the user confirms by typing the project name '
+          + '(clients without elicitation support need confirm: true instead).',
         annotations: {
-          title: 'Analyze Issue',
-          readOnlyHint: true,
-          destructiveHint: false,
+          title: 'Delete Check-in',
+          readOnlyHint: false,
+          destructiveHint: true,
+          idempotentHint: false,
         },
         inputSchema: {
-          fault_id: z.number().min(1).describe('The ID of the fault to analyze'),
+          check_in_id: pathIdParam.describe('The check-in ID to delete'),
           project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
-          include_context: z.boolean().default(true).describe('Include request context and parameters in analysis'),
+          confirm: confirmParam,
         },
       },
-      async ({ fault_id, project_id, include_context = true }) => {
+      async ({ check_in_id, project_id, confirm }) => {
         try {
           const pid = this.resolveProjectId(project_id);
-
-          const [fault, noticesData] = await Promise.all([
-            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}`),
-            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}/notices`, {
-              params: { limit: 5 },
-            }),
-          ]);
-
-          const notices: HoneybadgerNotice[] = noticesData.results || [];
-
-          // Fetch trend and impact data in parallel (best-effort)
-          const [countsData, affectedUsersData] = await Promise.all([
-            this.makeHoneybadgerRequest(`/projects/${pid}/faults/summary`, {
-              params: {
-                occurred_after: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-              },
-            }).catch(() => null),
-            this.makeHoneybadgerRequest(`/projects/${pid}/faults/${fault_id}/affected_users`, {
-              params: { limit: 10 },
-            }).catch(() => null),
+          const [project, checkIn] = await Promise.all([
+            this.makeHoneybadgerRequest(`/projects/${pid}`),
+            this.makeHoneybadgerRequest(`/projects/${pid}/check_ins/${check_in_id}`, { bypassCache: true }),
           ]);
-
-          const analysis = this.generateAnalysis(
-            fault,
-            notices,
-            include_context,
-            countsData,
-            affectedUsersData
+          await this.confirmWrite(
+            `Permanently delete check-in "${checkIn.name || check_in_id}" from project "${project.name}" (ID ${pid})?`,
+            project,
+            confirm
           );
-
-          return {
-            content: [{ type: 'text' as const, text: analysis }],
-          };
+          await this.makeHoneybadgerRequest(`/projects/${pid}/check_ins/${check_in_id}`, { method: 'DELETE' });
+          return this.formatWriteResponse({ id: check_in_id }, 'deleted check-in');
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
-  }
 
-  private registerWriteTools() {
-    this.server.registerTool(
-      'create_honeybadger_project',
+    // ── Uptime ────────────────────────────────────────────────────────────────
+
+    const uptimeSiteSchema = {
+      frequency: z.union([z.literal(1), z.literal(5), z.literal(15)]).optional().describe('Check frequency in minutes (1, 5 or 15)'),
+      match_type: z.enum(['success', 'exact', 'include', 'exclude']).optional()
+        .describe('How to judge a response: any 2xx ("success"), or body exact/include/exclude match'),
+      match: z.string().optional().describe('Body text to match (required unless match_type is "success")'),
+      request_method: z.enum(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE']).optional().describe('HTTP method used for checks'),
+      locations: z.array(z.enum(['Virginia', 'Oregon', 'Frankfurt', 'Singapore', 'London'])).optional()
+        .describe('Locations to check from'),
+      validate_ssl: z.boolean().optional().describe('Fail the check when the SSL certificate is invalid'),
+      timeout: z.number().min(1).optional().describe('Request timeout in seconds'),
+      active: z.boolean().optional().describe('Set to false to pause monitoring'),
+    };
+
+    this.registerTool(
+      'create_honeybadger_uptime_site',
       {
-        description: 'Create a new Honeybadger project. Requires HONEYBADGER_READ_ONLY=false.',
+        description: 'Create an uptime monitor for a URL. Requires HONEYBADGER_READ_ONLY=false.',
         annotations: {
-          title: 'Create Project',
+          title: 'Create Uptime Site',
           readOnlyHint: false,
           destructiveHint: false,
         },
         inputSchema: {
-          account_id: z.string().min(1).describe('The account ID to associate the project with (required)'),
-          name: z.string().min(1).max(255).describe('Project name (required)'),
-          resolve_errors_on_deploy: z.boolean().optional()
-            .describe('Whether all unresolved faults should be marked as resolved when a deploy is recorded'),
-          disable_public_links: z.boolean().optional()
-            .describe('Whether to allow fault details to be publicly shareable via a button on the fault detail page'),
-          user_url: z.string().optional()
-            .describe('A URL format like "http://example.com/admin/users/[user_id]" that will be displayed on the fault detail page'),
-          source_url: z.string().optional()
-            .describe('A URL format like "https://gitlab.com/username/reponame/blob/[sha]/[file]#L[line]" that is used to link lines in the backtrace to your git browser'),
-          purge_days: z.number().min(1).optional()
-            .describe('The number of days to retain data (up to the max number of days available to your subscription plan)'),
-          user_search_field: z.string().optional()
-            .describe('A field such as "context.user_email" that you provide in your error context'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          name: z.string().min(1).describe('Site name (required)'),
+          url: z.string().url().describe('URL to monitor (required)'),
+          ...uptimeSiteSchema,
         },
       },
-      async ({ account_id, name, resolve_errors_on_deploy, disable_public_links, user_url, source_url, purge_days, user_search_field }) => {
+      async ({ project_id, name, url, frequency, match_type, match, request_method, locations, validate_ssl, timeout, active }) => {
         try {
-          const data: any = { name };
-          if (resolve_errors_on_deploy !== undefined) data.resolve_errors_on_deploy = resolve_errors_on_deploy;
-          if (disable_public_links !== undefined) data.disable_public_links = disable_public_links;
-          if (user_url !== undefined) data.user_url = user_url;
-          if (source_url !== undefined) data.source_url = source_url;
-          if (purge_days !== undefined) data.purge_days = purge_days;
-          if (user_search_field !== undefined) data.user_search_field = user_search_field;
-          const result = await this.makeHoneybadgerRequest(`/projects`, {
-            method: 'POST',
-            params: account_id ? { account_id } : undefined,
-            data,
+          const pid = this.resolveProjectId(project_id);
+          const data = this.buildUptimeSitePayload({
+            name, url, frequency, match_type, match, request_method, locations, validate_ssl, timeout, active,
           });
-          return this.formatWriteResponse(result, 'created project');
+          const result = await this.makeHoneybadgerRequest(`/projects/${pid}/sites`, { method: 'POST', data });
+          return this.formatWriteResponse(result, 'created uptime site');
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
-      'update_honeybadger_project',
+    this.registerTool(
+      'update_honeybadger_uptime_site',
       {
-        description: 'Update an existing Honeybadger project. Requires HONEYBADGER_READ_ONLY=false.',
+        description: 'Update an existing uptime site. Requires HONEYBADGER_READ_ONLY=false.',
         annotations: {
-          title: 'Update Project',
+          title: 'Update Uptime Site',
           readOnlyHint: false,
           destructiveHint: false,
         },
         inputSchema: {
-          id: z.number().min(1).describe('The project ID to update'),
-          name: z.string().min(1).max(255).optional().describe('New project name'),
-          resolve_errors_on_deploy: z.boolean().optional()
-            .describe('Whether all unresolved faults should be marked as resolved when a deploy is recorded'),
-          disable_public_links: z.boolean().optional()
-            .describe('Whether to allow fault details to be publicly shareable via a button on the fault detail page'),
-          user_url: z.string().optional()
-            .describe('A URL format like "http://example.com/admin/users/[user_id]"'),
-          source_url: z.string().optional()
-            .describe('Git browser URL format'),
-          purge_days: z.number().min(1).optional()
-            .describe('The number of days to retain data'),
-          user_search_field: z.string().optional()
-            .describe('Field for user search (e.g., "context.user_email")'),
+          site_id: pathIdParam.describe('The uptime site ID (UUID) to update'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          name: z.string().min(1).optional().describe('New site name'),
+          url: z.string().url().optional().describe('New URL to monitor'),
+          ...uptimeSiteSchema,
         },
       },
-      async ({ id, name, resolve_errors_on_deploy, disable_public_links, user_url, source_url, purge_days, user_search_field }) => {
+      async ({ site_id, project_id, name, url, frequency, match_type, match, request_method, locations, validate_ssl, timeout, active }) => {
         try {
-          const data: any = {};
-          if (name) data.name = name;
-          if (resolve_errors_on_deploy !== undefined) data.resolve_errors_on_deploy = resolve_errors_on_deploy;
-          if (disable_public_links !== undefined) data.disable_public_links = disable_public_links;
-          if (user_url !== undefined) data.user_url = user_url;
-          if (source_url !== undefined) data.source_url = source_url;
-          if (purge_days !== undefined) data.purge_days = purge_days;
-          if (user_search_field !== undefined) data.user_search_field = user_search_field;
-          const result = await this.makeHoneybadgerRequest(`/projects/${id}`, { method: 'PUT', data });
-          return this.formatWriteResponse(result, 'updated project');
+          const pid = this.resolveProjectId(project_id);
+          const data = this.buildUptimeSitePayload({
+            name, url, frequency, match_type, match, request_method, locations, validate_ssl, timeout, active,
+          });
+          const result = await this.makeHoneybadgerRequest(`/projects/${pid}/sites/${site_id}`, { method: 'PUT', data });
+          return this.formatWriteResponse(result || { id: site_id, ...data.site }, 'updated uptime site');
         } catch (e: any) {
           return this.toolError(e.message);
         }
       }
     );
 
-    this.server.registerTool(
-      'delete_honeybadger_project',
+    this.registerTool(
+      'delete_honeybadger_uptime_site',
       {
-        description: 'Delete a Honeybadger project permanently. DANGEROUS - requires explicit confirmation.',
+        description: 'Delete an uptime site and its history permanently. DANGEROUS - the user confirms by typing the project name '
+          + '(clients without elicitation support need confirm: true instead).',
         annotations: {
-          title: 'Delete Project',
+          title: 'Delete Uptime Site',
           readOnlyHint: false,
           destructiveHint: true,
           idempotentHint: false,
         },
         inputSchema: {
-          id: z.number().min(1).describe('The project ID to delete'),
-          confirm: z.boolean().describe('Must be explicitly set to true to confirm deletion'),
+          site_id: pathIdParam.describe('The uptime site ID (UUID) to delete'),
+          project_id: z.number().min(1).optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if not provided)'),
+          confirm: confirmParam,
         },
       },
-      async ({ id, confirm }) => {
-        if (!confirm) {
-          return this.toolError('Deletion requires explicit confirmation (set confirm: true)');
-        }
+      async ({ site_id, project_id, confirm }) => {
         try {
-          await this.makeHoneybadgerRequest(`/projects/${id}`, { method: 'DELETE' });
-          return this.formatWriteResponse({ id }, 'deleted project');
+          const pid = this.resolveProjectId(project_id);
+          const [project, site] = await Promise.all([
+            this.makeHoneybadgerRequest(`/projects/${pid}`),
+            this.makeHoneybadgerRequest(`/projects/${pid}/sites/${site_id}`, { bypassCache: true }),
+          ]);
+          await this.confirmWrite(
+            `Permanently delete uptime site "${site.name || site_id}"${site.url ? ` (${site.url})` : ''} and its history `
+            + `from project "${project.name}" (ID ${pid})?`,
+            project,
+            confirm
+          );
+          await this.makeHoneybadgerRequest(`/projects/${pid}/sites/${site_id}`, { method: 'DELETE' });
+          return this.formatWriteResponse({ id: site_id }, 'deleted uptime site');
         } catch (e: any) {
           return this.toolError(e.message);
         }
@@ -722,16 +3452,263 @@ All IDs (project_id, fault_id) are integers, not strings.`,
     );
   }
 
+  // ── Resource registration ────────────────────────────────────────────────────
+
+  private registerResources() {
+    // URI variables end up in API paths, so only plain IDs get through
+    const variable = (value: string | string[], name: string, pattern = /^\d+$/) => {
+      const id = Array.isArray(value) ? value[0] : value;
+      if (!pattern.test(id ?? '')) throw new Error(`Invalid ${name} "${id}" in resource URI`);
+      return id;
+    };
+    const jsonContents = (uri: URL, data: any) => ({
+      contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+    });
+    this.server.registerResource(
+      'honeybadger-project',
+      new ResourceTemplate('honeybadger://projects/{project_id}', {
+        list: async () => {
+          const data = await this.makeHoneybadgerRequest('/projects', { params: { per_page: 100 } });
+          return {
+            resources: (data.results || []).map((p: any) => ({
+              uri: `honeybadger://projects/${p.id}`,
+              name: p.name,
+              description: `Honeybadger project ${p.id}`,
+              mimeType: 'application/json',
+            })),
+          };
+        },
+        complete: { project_id: (value) => this.completeProjectIds(value) },
+      }),
+      {
+        title: 'Honeybadger Project',
+        description: 'A Honeybadger project with its settings and environments',
+        mimeType: 'application/json',
+      },
+      async (uri, { project_id }) => {
+        const data = await this.makeHoneybadgerRequest(`/projects/${variable(project_id, 'project_id')}`);
+        return jsonContents(uri, data);
+      }
+    );
+
+    this.server.registerResource(
+      'honeybadger-fault',
+      new ResourceTemplate('honeybadger://projects/{project_id}/faults/{fault_id}', {
+        // Only the default project's recent faults are listed; other projects are reachable by URI
+        list: async () => {
+          if (!this.profile.projectId) return { resources: [] };
+          const pid = this.resolveProjectId();
+          const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults`, { params: { limit: 25 } });
+          return {
+            resources: (data.results || []).map((f: HoneybadgerFault) => ({
+              uri: `honeybadger://projects/${pid}/faults/${f.id}`,
+              name: `${f.klass}: ${f.message}`.slice(0, 120),
+              description: `${f.environment} · ${f.notices_count} occurrences · last seen ${f.last_notice_at}`,
+              mimeType: 'application/json',
+            })),
+          };
+        },
+        complete: {
+          project_id: (value) => this.completeProjectIds(value),
+          fault_id: (value, context) => this.completeFaultIds(value, context?.arguments?.project_id),
+        },
+      }),
+      {
+        title: 'Honeybadger Fault',
+        description: 'A Honeybadger fault (a grouped error pattern) with its counts, status and assignee',
+        mimeType: 'application/json',
+      },
+      async (uri, { project_id, fault_id }) => {
+        const data = await this.makeHoneybadgerRequest(
+          `/projects/${variable(project_id, 'project_id')}/faults/${variable(fault_id, 'fault_id')}`
+        );
+        return jsonContents(uri, data);
+      }
+    );
+
+    this.server.registerResource(
+      'honeybadger-notice',
+      new ResourceTemplate('honeybadger://projects/{project_id}/faults/{fault_id}/notices/{notice_id}', {
+        list: undefined,
+        complete: {
+          project_id: (value) => this.completeProjectIds(value),
+          fault_id: (value, context) => this.completeFaultIds(value, context?.arguments?.project_id),
+          notice_id: async (value, context) => {
+            try {
+              const pid = this.resolveProjectId(Number(context?.arguments?.project_id) || undefined);
+              const faultId = context?.arguments?.fault_id;
+              if (!/^\d+$/.test(faultId ?? '')) return [];
+              const data = await this.makeHoneybadgerRequest(`/projects/${pid}/faults/${faultId}/notices`, {
+                params: { limit: 25 },
+              });
+              return (data.results || [])
+                .map((n: HoneybadgerNotice) => String(n.id))
+                .filter((id: string) => id.startsWith(value));
+            } catch {
+              return [];
+            }
+          },
+        },
+      }),
+      {
+        title: 'Honeybadger Notice',
+        description: 'A single error occurrence with backtrace, request context and params',
+        mimeType: 'application/json',
+      },
+      async (uri, { project_id, fault_id, notice_id }) => {
+        const notice = await this.fetchNotice(
+          Number(variable(project_id, 'project_id')),
+          variable(fault_id, 'fault_id'),
+          variable(notice_id, 'notice_id', /^[\w-]+$/)
+        );
+        return jsonContents(uri, this.redactNotices(notice).data);
+      }
+    );
+  }
+
+  // ── Prompt registration ──────────────────────────────────────────────────────
+
+  private registerPrompts() {
+    // Prompt arguments always arrive as strings
+    // @ts-expect-error - TypeScript has issues with deep type instantiation in MCP SDK
+    const projectIdArg = completable(
+      z.string().optional().describe('Project ID (uses HONEYBADGER_PROJECT_ID if omitted)'),
+      (value) => this.completeProjectIds(value ?? '')
+    );
+    const environmentArg = z.string().optional().describe('Environment name (default: production)');
+    const projectRef = (projectId?: string) =>
+      projectId ? `project_id ${projectId}` : 'the default project (omit project_id)';
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    const parsePositive = (value: string | undefined, fallback: number) => {
+      const n = Number(value);
+      return Number.isFinite(n) && n > 0 ? n : fallback;
+    };
+    const userMessage = (text: string) => ({
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+    });
+
+    this.server.registerPrompt(
+      'honeybadger_daily_triage',
+      {
+        title: 'Daily Triage',
+        description: 'Review the most frequent recent faults, analyze the top ones and propose owners',
+        argsSchema: {
+          project_id: projectIdArg,
+          environment: environmentArg,
+          hours: z.string().optional().describe('Look-back window in hours (default: 24)'),
+          top: z.string().optional().describe('How many faults to analyze in depth (default: 3)'),
+        },
+      },
+      ({ project_id, environment = 'production', hours, top }) => {
+        const windowHours = parsePositive(hours, 24);
+        const topN = parsePositive(top, 3);
+        return userMessage(`Run a daily Honeybadger triage for ${projectRef(project_id)} in the "${environment}" environment.
+
+1. Call list_honeybadger_faults with order "frequent", q 'environment:"${environment}" -is:resolved', occurred_after "${hoursAgo(windowHours)}" and limit 25.
+2. For the top ${topN} faults by occurrences in that window, call analyze_honeybadger_issue and summarize the likely root cause in one or two sentences each.
+3. For each of those faults, propose an owner: find the project's teams with list_honeybadger_teams / list_honeybadger_team_projects and pick members with list_honeybadger_team_members, based on the files and modules in the backtrace. Do not assign anyone yet.
+4. Flag any fault that is new in the window (created in the last ${windowHours}h) or whose occurrences look like a spike.
+
+Finish with a short table: fault ID, error class, occurrences, new?, suggested owner, suggested next action.`);
+      }
+    );
+
+    this.server.registerPrompt(
+      'honeybadger_incident_postmortem',
+      {
+        title: 'Incident Postmortem Draft',
+        description: 'Gather the data for a fault-driven incident and draft a blameless postmortem',
+        argsSchema: {
+          fault_id: completable(
+            z.string().describe('The fault at the center of the incident'),
+            (value, context) => this.completeFaultIds(value ?? '', context?.arguments?.project_id)
+          ),
+          project_id: projectIdArg,
+          started_at: z.string().optional().describe('Incident start (RFC3339), if known'),
+          ended_at: z.string().optional().describe('Incident end (RFC3339), if known'),
+        },
+      },
+      ({ fault_id, project_id, started_at, ended_at }) => {
+        const window = started_at
+          ? `The incident ran from ${started_at} to ${ended_at || 'an unknown end time'}.`
+          : 'The incident window is unknown; infer it from the fault\'s occurrence timestamps.';
+        return userMessage(`Draft an incident postmortem for Honeybadger fault ${fault_id} in ${projectRef(project_id)}. ${window}
+
+Gather data first:
+1. analyze_honeybadger_issue for fault ${fault_id} (include context).
+2. list_honeybadger_fault_notices for fault ${fault_id} to establish the first and last occurrence during the incident.
+3. list_honeybadger_fault_affected_users for fault ${fault_id} to size the user impact.
+4. list_honeybadger_deploys around the incident start to identify a triggering release, and get_honeybadger_faults_since_deploy for that deploy.
+5. get_honeybadger_project_report with report "notices_per_day" to show the incident against the baseline.
+
+Then write the postmortem with these sections: Summary, Impact (users, duration, occurrences), Timeline (UTC), Root Cause, Trigger, Resolution, What Went Well, What Went Wrong, Action Items (owner + due date placeholders). Keep it blameless and cite fault/notice IDs for each claim.`);
+      }
+    );
+
+    this.server.registerPrompt(
+      'honeybadger_post_deploy_review',
+      {
+        title: 'Post-deploy Review',
+        description: 'Check what broke (or got fixed) after a deploy',
+        argsSchema: {
+          project_id: projectIdArg,
+          environment: environmentArg,
+          deploy_id: z.string().optional().describe('Deploy ID (defaults to the most recent deploy)'),
+          window_hours: z.string().optional().describe('Hours to compare before and after the deploy (default: 24)'),
+        },
+      },
+      ({ project_id, environment = 'production', deploy_id, window_hours }) => {
+        const hours = parsePositive(window_hours, 24);
+        const deployRef = deploy_id ? `deploy_id ${deploy_id}` : `the most recent "${environment}" deploy`;
+        return userMessage(`Review ${deployRef} for ${projectRef(project_id)}.
+
+1. Call get_honeybadger_faults_since_deploy${deploy_id ? ` with deploy_id ${deploy_id}` : ` with environment "${environment}"`} and window_hours ${hours}.
+2. For every new or re-appeared fault, call analyze_honeybadger_issue and decide whether the deploy plausibly caused it (compare backtrace files against what the revision likely touched).
+3. Call list_honeybadger_uptime_sites and list_honeybadger_check_ins to confirm nothing went down or missed a run after the deploy.
+4. Note faults that disappeared after the deploy — they may have been fixed by it.
+
+Conclude with a verdict (healthy / needs attention / roll back), the faults that justify it, and suggested follow-ups.`);
+      }
+    );
+
+    this.server.registerPrompt(
+      'honeybadger_noisy_fault_cleanup',
+      {
+        title: 'Noisy Fault Cleanup',
+        description: 'Find high-volume, low-value faults and propose resolving, ignoring or fixing them',
+        argsSchema: {
+          project_id: projectIdArg,
+          environment: environmentArg,
+          days: z.string().optional().describe('Look-back window in days (default: 7)'),
+        },
+      },
+      ({ project_id, environment = 'production', days }) => {
+        const windowDays = parsePositive(days, 7);
+        return userMessage(`Help clean up noisy faults in ${projectRef(project_id)} ("${environment}" environment, last ${windowDays} days).
+
+1. Call get_honeybadger_project_report with report "notices_by_class", start "${hoursAgo(windowDays * 24)}" and environment "${environment}" to see which error classes dominate.
+2. Call list_honeybadger_faults with order "frequent", q 'environment:"${environment}" -is:resolved' and occurred_after "${hoursAgo(windowDays * 24)}".
+3. Classify each of the top faults as: expected/benign (bots, client disconnects, known third-party flakiness), duplicate of another fault, stale (no longer occurring), or real bug.
+4. Propose an action per fault: ignore, resolve, merge/fix upstream, or keep and fix. Group faults that share a cause.
+
+Present the plan as a table. Do not change anything: if write tools are available, list the exact resolve_honeybadger_fault / ignore_honeybadger_fault / bulk_update_honeybadger_faults calls you would make and wait for confirmation.`);
+      }
+    );
+  }
+
   // ── Analysis generator ───────────────────────────────────────────────────────
 
   private generateAnalysis(
     fault: HoneybadgerFault,
     notices: HoneybadgerNotice[],
     includeContext: boolean,
-    countsData: any,
-    affectedUsersData: any
+    trend: FaultTrend | null,
+    affectedUsersData: any,
+    redactionSummary?: string,
+    localSource?: string
   ): string {
     const latestNotice = notices[0];
+    const classification = this.errorClassifier.classify(fault, latestNotice?.backtrace);
 
     let analysis = `# Honeybadger Issue Analysis
 
@@ -739,7 +3716,8 @@ All IDs (project_id, fault_id) are integers, not strings.`,
 - **ID**: ${fault.id}
 - **Error Class**: ${fault.klass}
 - **Message**: ${fault.message}
-- **Environment**: ${fault.environment}
+- **Environment**: ${fault.environment}${classification.language ? `
+- **Language**: ${classification.language}` : ''}
 - **Occurrences**: ${fault.notices_count}
 - **First Seen**: ${fault.created_at}
 - **Last Seen**: ${fault.last_notice_at}
@@ -749,60 +3727,49 @@ All IDs (project_id, fault_id) are integers, not strings.`,
 ## Error Analysis
 
 ### Error Type
-The error "${fault.klass}" suggests:`;
-
-    if (fault.klass.includes('NoMethodError')) {
-      analysis += `
-- A method is being called on an object that doesn't respond to it
-- Possible nil object or wrong object type
-- Missing method definition or typo in method name`;
-    } else if (fault.klass.includes('NameError')) {
-      analysis += `
-- Undefined variable or constant
-- Typo in variable/constant name
-- Scope issues`;
-    } else if (fault.klass.includes('ArgumentError')) {
-      analysis += `
-- Wrong number of arguments passed to a method
-- Invalid argument values
-- Method signature mismatch`;
-    } else if (fault.klass.includes('ActiveRecord')) {
-      analysis += `
-- Database-related error
-- Possible migration issues
-- Invalid queries or constraints`;
-    } else {
-      analysis += `
-- Review the specific error class documentation
-- Check for common patterns in this error type`;
-    }
+The error "${fault.klass}" suggests:
+${classification.causes.map((cause) => `- ${cause}`).join('\n')}`;
 
     if (latestNotice) {
       analysis += `
 
 ### Stack Trace Analysis
 `;
-      const backtrace = latestNotice.backtrace?.slice(0, 10) || [];
-      backtrace.forEach((frame, index) => {
-        if (index === 0) {
-          analysis += `
-**Primary Error Location:**
+      // The top frame is usually inside a gem or node_modules; blame the first
+      // application frame instead
+      const normalized = this.frameClassifier.normalize(latestNotice.backtrace);
+      const frame = normalized.culprit ?? latestNotice.backtrace?.[0];
+      if (frame) {
+        const skipped = normalized.culprit?.index
+          ? ` (first application frame, below ${normalized.culprit.index} library/framework frames)`
+          : '';
+        analysis += `
+**Primary Error Location:**${skipped}
 - File: \`${frame.file}\`
 - Method: \`${frame.method}\`
 - Line: ${frame.number}`;
 
-          if (frame.source) {
-            analysis += `
+        if (frame.source) {
+          analysis += `
 - Context:
 \`\`\`
 ${Object.entries(frame.source).map(([line, code]) => `${line}: ${code}`).join('\n')}
 \`\`\``;
-          }
-        } else if (index < 5) {
-          analysis += `
-- ${frame.file}:${frame.number} in \`${frame.method}\``;
         }
-      });
+
+        const { application, library, framework } = normalized.counts;
+        analysis += `
+
+**Call Path** (${application} application, ${library} library, ${framework} framework frames):
+${formatNormalizedFrames(normalized.frames, 8).map((line) => `- ${line}`).join('\n')}`;
+      }
+
+      if (localSource) {
+        analysis += `
+
+### Local Source
+${localSource}`;
+      }
 
       if (includeContext && latestNotice.context) {
         analysis += `
@@ -821,14 +3788,20 @@ ${JSON.stringify(latestNotice.context, null, 2)}
 ${JSON.stringify(latestNotice.params, null, 2)}
 \`\`\``;
       }
+
+      if (includeContext && redactionSummary) {
+        analysis += `
+
+> ${redactionSummary}. Values shown as \`[REDACTED:<rule>]\` were removed before analysis.`;
+      }
     }
 
-    // Trend data (from fault counts, last 30 days)
-    if (countsData) {
+    // Trend data (from this fault's notice timestamps)
+    if (trend) {
       analysis += `
 
-## Trend Analysis (Last 30 Days)
-- Total fault count data: ${JSON.stringify(countsData)}`;
+## Trend Analysis (Last ${ANALYSIS_TREND_HOURS / 24} Days)
+${formatTrend(trend)}`;
     }
 
     // User impact data
@@ -844,9 +3817,37 @@ ${JSON.stringify(latestNotice.params, null, 2)}
 ${affectedUsers.slice(0, 5).map((u: any) => `  - ${u.user}: ${u.count} occurrences`).join('\n')}`;
     }
 
-    analysis += `
+    return analysis;
+  }
+
+  /**
+   * Asks the client model for a root-cause hypothesis via sampling/createMessage.
+   * Throws with a short reason when the client cannot sample or the reply is unusable.
+   */
+  private async sampleRootCause(facts: string): Promise<{ hypothesis: RootCauseHypothesis; model: string }> {
+    if (!this.server.server.getClientCapabilities()?.sampling) {
+      throw new Error('the client does not support sampling');
+    }
+    // Backtraces skip redaction and the facts mix several payloads, so check the text as sent
+    const { value: prompt } = this.redactor.redact(buildRootCausePrompt(facts));
+    const result = await this.server.server.createMessage(
+      {
+        systemPrompt: ROOT_CAUSE_SYSTEM_PROMPT,
+        messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+        maxTokens: SAMPLING_MAX_TOKENS,
+        includeContext: 'none',
+        modelPreferences: { intelligencePriority: 0.8, speedPriority: 0.2 },
+      },
+      { timeout: SAMPLING_TIMEOUT_MS }
+    );
+    if (result.content.type !== 'text') throw new Error(`the model replied with ${result.content.type} content`);
+    return { hypothesis: parseRootCauseResponse(result.content.text), model: result.model };
+  }
 
-## Recommended Fix Strategies
+  private templateFixStrategies(fault: HoneybadgerFault, notices: HoneybadgerNotice[]): string {
+    const classification = this.errorClassifier.classify(fault, notices[0]?.backtrace);
+
+    let analysis = `## Recommended Fix Strategies
 
 ### Immediate Actions
 1. **Reproduce the Error**
@@ -856,21 +3857,9 @@ ${affectedUsers.slice(0, 5).map((u: any) => `  - ${u.user}: ${u.count} occurrenc
 
 2. **Quick Fixes**`;
 
-    if (fault.klass.includes('NoMethodError')) {
-      analysis += `
-   - Add nil checks: \`object&.method_name\`
-   - Verify object type before method calls
-   - Check method spelling and availability`;
-    } else if (fault.klass.includes('ArgumentError')) {
+    if (classification.fixes.length > 0) {
       analysis += `
-   - Review method signatures
-   - Validate input parameters
-   - Add parameter validation`;
-    } else if (fault.klass.includes('ActiveRecord')) {
-      analysis += `
-   - Check database migrations
-   - Validate model associations
-   - Review query syntax`;
+${classification.fixes.map((fix) => `   - ${fix}`).join('\n')}`;
     }
 
     analysis += `
@@ -901,20 +3890,69 @@ ${affectedUsers.slice(0, 5).map((u: any) => `  - ${u.user}: ${u.count} occurrenc
 2. Set up local reproduction using the provided context
 3. Implement the recommended fixes
 4. Add appropriate tests
-5. Deploy and monitor the fix effectiveness
-
----
-*Analysis generated from Honeybadger fault #${fault.id}*`;
+5. Deploy and monitor the fix effectiveness`;
 
     return analysis;
   }
 
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    await this.server.close();
+  }
+
   async run() {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(transport);
     console.error('Honeybadger MCP server running on stdio');
   }
 }
 
-const server = new HoneybadgerMCPServer();
-server.run().catch(console.error);
+// ── Entry point ────────────────────────────────────────────────────────────────
+
+function readCliOption(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  if (process.argv.includes('--fake-api')) {
+    await startFakeApi({
+      host: readCliOption('host') || '127.0.0.1',
+      port: Number(readCliOption('port') || process.env.HONEYBADGER_FAKE_API_PORT || 4010),
+    });
+    return;
+  }
+
+  const useHttp = process.argv.includes('--http') || process.env.HONEYBADGER_TRANSPORT === 'http';
+  if (!useHttp) {
+    await new HoneybadgerMCPServer().run();
+    return;
+  }
+
+  // Every session would rewrite the same cassette file
+  if (process.env.HONEYBADGER_CASSETTE) {
+    throw new Error('HONEYBADGER_CASSETTE is only supported with the stdio transport');
+  }
+
+  const port = Number(readCliOption('port') || process.env.HONEYBADGER_HTTP_PORT || 3000);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid HTTP port: "${readCliOption('port') || process.env.HONEYBADGER_HTTP_PORT}"`);
+  }
+
+  await startHttpServer({
+    host: readCliOption('host') || process.env.HONEYBADGER_HTTP_HOST || '127.0.0.1',
+    port,
+    tokens: parseTokenMap(process.env.HONEYBADGER_HTTP_TOKENS, process.env.HONEYBADGER_API_KEY || ''),
+    // Profiles would hand every token holder the keys in the profiles file
+    createSession: (apiKey, caller) => new HoneybadgerMCPServer({ apiKey, caller, profilesFile: undefined, profile: undefined }),
+    version: SERVER_VERSION,
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+// Per-occurrence bookkeeping that differs on every notice and says nothing
+// about the triggering input
+const IGNORED_KEYS = new Set(['id', 'fault_id', 'project_id', 'created_at', 'occurred_at', 'backtrace', 'url']);
+
+const MAX_DEPTH = 6;
+const MAX_VALUE_LENGTH = 200;
+const MAX_VALUES_PER_FIELD = 5;
+
+export interface VaryingField {
+  field: string;
+  distinct_values: number;
+  // Notices that do not have this field at all
+  missing_in: number;
+  values: Array<{ value: string; count: number; notice_ids: string[] }>;
+  other_values?: number;
+}
+
+export interface NoticeDiff {
+  notices_compared: number;
+  notice_ids: string[];
+  constant: Record<string, string>;
+  varying: VaryingField[];
+}
+
+const render = (value: any): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+};
+
+function flatten(node: any, prefix: string, depth: number, out: Map<string, string>) {
+  const isObject = node && typeof node === 'object' && !Array.isArray(node);
+  if (!isObject || depth >= MAX_DEPTH) {
+    if (prefix) out.set(prefix, render(node));
+    return;
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (depth === 0 && IGNORED_KEYS.has(key)) continue;
+    flatten(child, prefix ? `${prefix}.${key}` : key, depth + 1, out);
+  }
+}
+
+/**
+ * Flattens each notice into dot-path fields and splits them into fields that
+ * hold the same value on every notice and fields that vary. Varying fields are
+ * sorted by how few distinct values they have, since a field with two values
+ * across many notices usually points at the triggering input.
+ */
+export function diffNotices(notices: any[]): NoticeDiff {
+  const flattened = notices.map((notice) => {
+    const fields = new Map<string, string>();
+    flatten(notice, '', 0, fields);
+    return { id: String(notice?.id), fields };
+  });
+  const paths = new Set(flattened.flatMap(({ fields }) => Array.from(fields.keys())));
+
+  const constant: Record<string, string> = {};
+  const varying: VaryingField[] = [];
+  for (const path of Array.from(paths).sort()) {
+    const byValue = new Map<string, string[]>();
+    let missing = 0;
+    for (const { id, fields } of flattened) {
+      const value = fields.get(path);
+      if (value === undefined) {
+        missing++;
+        continue;
+      }
+      byValue.set(value, [...(byValue.get(value) || []), id]);
+    }
+    if (missing === 0 && byValue.size === 1) {
+      constant[path] = byValue.keys().next().value as string;
+      continue;
+    }
+    const values = Array.from(byValue.entries())
+      .map(([value, ids]) => ({ value, count: ids.length, notice_ids: ids }))
+      .sort((a, b) => b.count - a.count);
+    varying.push({
+      field: path,
+      distinct_values: byValue.size,
+      missing_in: missing,
+      values: values.slice(0, MAX_VALUES_PER_FIELD),
+      ...(values.length > MAX_VALUES_PER_FIELD ? { other_values: values.length - MAX_VALUES_PER_FIELD } : {}),
+    });
+  }
+  varying.sort((a, b) => a.distinct_values - b.distinct_values || a.field.localeCompare(b.field));
+
+  return {
+    notices_compared: notices.length,
+    notice_ids: flattened.map(({ id }) => id),
+    constant,
+    varying,
+  };
+}
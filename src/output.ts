@@ -0,0 +1,157 @@
+export type DetailLevel = 'summary' | 'standard' | 'full';
+
+export interface OutputOptions {
+  detail?: DetailLevel;
+  // Dot paths to keep, e.g. ["id", "klass", "assignee.name"]
+  fields?: string[];
+  max_frames?: number;
+}
+
+export const DEFAULT_MAX_FRAMES = 10;
+export const DEFAULT_RESPONSE_BUDGET = 40000;
+
+const SUMMARY_TEXT_LENGTH = 200;
+const TABLE_CELL_LENGTH = 80;
+const MAX_TABLE_COLUMNS = 8;
+
+// Path segments that would reach Object.prototype through setPath
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+const isScalar = (value: any) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+const clip = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+function getPath(item: any, path: string[]): any {
+  return path.reduce((node, key) => (node == null ? undefined : node[key]), item);
+}
+
+function setPath(target: any, path: string[], value: any) {
+  let node = target;
+  path.slice(0, -1).forEach((key) => {
+    node = node[key] ??= {};
+  });
+  node[path[path.length - 1]] = value;
+}
+
+function projectFields(item: any, fields: string[]): any {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+  const out: any = {};
+  for (const field of fields) {
+    const path = field.split('.').filter(Boolean);
+    if (path.some((key) => UNSAFE_KEYS.includes(key))) continue;
+    const value = path.length > 0 ? getPath(item, path) : undefined;
+    if (value !== undefined) setPath(out, path, value);
+  }
+  return out;
+}
+
+// Keeps top-level scalars and scalar lists (e.g., tags); nested payloads such as
+// request context and backtraces are dropped.
+function summarizeItem(item: any): any {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return item;
+  const out: any = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (typeof value === 'string') out[key] = clip(value, SUMMARY_TEXT_LENGTH);
+    else if (isScalar(value)) out[key] = value;
+    else if (Array.isArray(value) && value.every(isScalar)) out[key] = value;
+  }
+  return out;
+}
+
+/**
+ * Cuts every `backtrace` array down to `maxFrames` frames and records how many
+ * were dropped in a sibling `backtrace_frames_omitted` key.
+ */
+export function truncateBacktraces(value: any, maxFrames: number): any {
+  if (Array.isArray(value)) return value.map((v) => truncateBacktraces(v, maxFrames));
+  if (!value || typeof value !== 'object') return value;
+  const out: any = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'backtrace' && Array.isArray(child) && child.length > maxFrames) {
+      out[key] = child.slice(0, maxFrames);
+      out.backtrace_frames_omitted = child.length - maxFrames;
+    } else {
+      out[key] = truncateBacktraces(child, maxFrames);
+    }
+  }
+  return out;
+}
+
+/**
+ * Applies the detail level and field projection to a single payload. `standard`
+ * only trims backtraces; `full` returns everything unless max_frames is given.
+ */
+export function shapeItem(item: any, options: OutputOptions = {}): any {
+  if (Array.isArray(item)) return item.map((i) => shapeItem(i, options));
+  const { detail = 'standard', fields, max_frames } = options;
+  const maxFrames = max_frames ?? (detail === 'full' ? undefined : DEFAULT_MAX_FRAMES);
+  let shaped = fields?.length ? projectFields(item, fields) : item;
+  if (detail === 'summary' && !fields?.length) shaped = summarizeItem(shaped);
+  return maxFrames === undefined ? shaped : truncateBacktraces(shaped, maxFrames);
+}
+
+/**
+ * Renders a list as a Markdown table of the given columns, or of its keys in
+ * first seen order capped at eight. Nested values are shown as `{…}` / `[n]`.
+ */
+export function renderTable(items: any[], columns: string[] = tableColumns(items)): string {
+  if (items.length === 0) return '(no results)';
+  const cell = (value: any) => {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.every(isScalar) ? clip(value.join(', '), TABLE_CELL_LENGTH) : `[${value.length}]`;
+    if (typeof value === 'object') return '{…}';
+    return clip(String(value), TABLE_CELL_LENGTH).replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+  };
+  const rows = items.map((item) => `| ${columns.map((c) => cell(item?.[c])).join(' | ')} |`);
+  return [`| ${columns.join(' | ')} |`, `|${columns.map(() => '---').join('|')}|`, ...rows].join('\n');
+}
+
+/**
+ * RFC 4180 CSV with a header row. Nested values are written as JSON.
+ */
+export function renderCsv(items: any[], columns: string[] = tableColumns(items, Infinity)): string {
+  const cell = (value: any) => {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.map(cell).join(','), ...items.map((item) => columns.map((c) => cell(item?.[c])).join(','))].join('\n');
+}
+
+function tableColumns(items: any[], max = MAX_TABLE_COLUMNS): string[] {
+  const columns: string[] = [];
+  for (const item of items) {
+    for (const key of Object.keys(item ?? {})) {
+      if (!columns.includes(key) && columns.length < max) columns.push(key);
+    }
+  }
+  return columns;
+}
+
+/**
+ * Keeps the longest prefix of `items` whose rendering fits in `budget`
+ * characters. Returns the rendered text and how many items were left out.
+ */
+export function fitItemsToBudget(
+  items: any[],
+  render: (items: any[]) => string,
+  budget: number
+): { text: string; omitted: number } {
+  const full = render(items);
+  if (full.length <= budget) return { text: full, omitted: 0 };
+  let low = 0;
+  let high = items.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(items.slice(0, mid)).length <= budget) low = mid;
+    else high = mid - 1;
+  }
+  // A single oversized item is still returned, cut at the character budget
+  if (low === 0) return { text: truncateText(render(items.slice(0, 1)), budget), omitted: items.length - 1 };
+  return { text: render(items.slice(0, low)), omitted: items.length - low };
+}
+
+export function truncateText(text: string, budget: number): string {
+  if (text.length <= budget) return text;
+  return `${text.slice(0, budget)}\n… ${text.length - budget} more characters omitted (response budget is ${budget} characters)`;
+}
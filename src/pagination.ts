@@ -0,0 +1,55 @@
+export interface PageRequest {
+  endpoint: string;
+  params: any;
+}
+
+export interface PageCursor extends PageRequest {
+  // Items of the first page already returned by a previous call
+  skip: number;
+}
+
+// Query params a cursor may carry: the listing filters plus paging
+const CURSOR_PARAMS = [
+  'q', 'order', 'environment', 'local_username', 'created_after', 'created_before',
+  'occurred_after', 'occurred_before', 'limit', 'per_page', 'page',
+];
+
+/**
+ * Turns a `links.next` URL from a list response back into an endpoint + params
+ * pair for the API client. The base URL may carry a path prefix (e.g., behind
+ * a proxy), which is stripped along with `/v2`.
+ */
+export function nextPageRequest(nextLink: string | undefined, baseUrl: string): PageRequest | undefined {
+  if (!nextLink) return undefined;
+  const url = new URL(nextLink, baseUrl);
+  const prefix = new URL(`${baseUrl.replace(/\/+$/, '')}/v2`).pathname;
+  return {
+    endpoint: url.pathname.startsWith(`${prefix}/`) ? url.pathname.slice(prefix.length) : url.pathname.replace(/^\/v2/, ''),
+    params: Object.fromEntries(url.searchParams),
+  };
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Reads a cursor made by encodeCursor for the listing at `endpoint`. Params
+ * outside CURSOR_PARAMS, e.g. from a hand-edited cursor, are dropped rather
+ * than sent to the API.
+ */
+export function decodeCursor(cursor: string, endpoint: string): PageCursor {
+  let decoded: PageCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor. Pass the next_cursor value from a previous call unchanged.');
+  }
+  // A cursor is only valid for the listing that produced it
+  if (decoded?.endpoint !== endpoint || !decoded.params || typeof decoded.params !== 'object') {
+    throw new Error('Invalid cursor for this listing. Pass the next_cursor value from a previous call of the same tool.');
+  }
+  const params = Object.fromEntries(Object.entries(decoded.params).filter(([key, value]) =>
+    CURSOR_PARAMS.includes(key) && (typeof value === 'string' || typeof value === 'number')));
+  return { endpoint: decoded.endpoint, params, skip: Math.max(0, Math.floor(Number(decoded.skip))) || 0 };
+}
@@ -0,0 +1,208 @@
+import { readFileSync } from 'node:fs';
+
+// A dry run only clears the way for the real call this long
+export const DRY_RUN_TTL_MS = 10 * 60 * 1000;
+
+export type DryRunRequirement = boolean | 'destructive' | string[];
+
+export interface ToolRule {
+  projects?: number[];
+  environments?: string[];
+  require_dry_run?: boolean;
+}
+
+export interface PolicyConfig {
+  // Glob patterns (`*` wildcard) of tool names; deny wins over allow
+  allow_tools: string[];
+  deny_tools: string[];
+  // Projects and environments write tools may touch, unless a tool rule overrides them
+  write_projects?: number[];
+  write_environments?: string[];
+  // A new project has no ID to check against write_projects, so creating one
+  // under a project scope must be allowed explicitly
+  allow_project_create: boolean;
+  require_dry_run: DryRunRequirement;
+  max_bulk_faults?: number;
+  // Whether destructive and bulk writes may be confirmed with `confirm: true`
+  // when the client cannot ask the user (no elicitation support)
+  allow_confirm_argument: boolean;
+  tools: Record<string, ToolRule>;
+}
+
+export const OPEN_POLICY: PolicyConfig = {
+  allow_tools: ['*'],
+  deny_tools: [],
+  allow_project_create: false,
+  require_dry_run: false,
+  allow_confirm_argument: true,
+  tools: {},
+};
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+// A misspelled key would otherwise be ignored and leave the policy looser than intended
+const POLICY_KEYS = [
+  'allow_tools', 'deny_tools', 'write_projects', 'write_environments', 'allow_project_create',
+  'require_dry_run', 'max_bulk_faults', 'allow_confirm_argument', 'tools',
+];
+const TOOL_RULE_KEYS = ['projects', 'environments', 'require_dry_run'];
+
+const checkObject = (value: unknown, where: string, path: string, known?: string[]): Record<string, any> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${where} in policy file ${path} must be an object`);
+  }
+  const unknown = known ? Object.keys(value).filter((key) => !known.includes(key)) : [];
+  if (unknown.length) {
+    throw new Error(`Unknown ${unknown.length > 1 ? 'keys' : 'key'} ${unknown.map((k) => `"${k}"`).join(', ')} in ${where} of policy file ${path} (known: ${known!.join(', ')})`);
+  }
+  return value as Record<string, any>;
+};
+
+const numberList = (value: unknown, field: string, path: string): number[] | undefined => {
+  if (value === undefined) return undefined;
+  const isId = (v: unknown) => (typeof v === 'number' || (typeof v === 'string' && v.trim() !== '')) && Number.isInteger(Number(v));
+  if (!Array.isArray(value) || !value.every(isId)) {
+    throw new Error(`"${field}" in policy file ${path} must be an array of project IDs`);
+  }
+  return value.map(Number);
+};
+
+const stringList = (value: unknown, field: string, path: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+    throw new Error(`"${field}" in policy file ${path} must be an array of strings`);
+  }
+  return value;
+};
+
+/**
+ * Decides which tools are exposed and where write tools may act: tool
+ * allow/deny lists, project and environment scopes for writes (globally or per
+ * tool), mandatory dry runs, a cap on bulk fault updates and whether the model's
+ * `confirm: true` may stand in for the user's confirmation.
+ */
+export class ToolPolicy {
+  private allow: RegExp[];
+  private deny: RegExp[];
+
+  constructor(private config: PolicyConfig = OPEN_POLICY) {
+    this.allow = config.allow_tools.map(globToRegExp);
+    this.deny = config.deny_tools.map(globToRegExp);
+  }
+
+  /**
+   * Reads HONEYBADGER_POLICY_FILE. Without it every tool is allowed and writes
+   * are only limited by HONEYBADGER_READ_ONLY.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+    const path = env.HONEYBADGER_POLICY_FILE;
+    if (!path) return new ToolPolicy();
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read policy file ${path}: ${error.message}`);
+    }
+    const file = checkObject(parsed, 'the top level', path, POLICY_KEYS);
+    const dryRun = file.require_dry_run ?? false;
+    if (typeof dryRun !== 'boolean' && dryRun !== 'destructive' && !stringList(dryRun, 'require_dry_run', path)) {
+      throw new Error(`"require_dry_run" in policy file ${path} must be true, false, "destructive" or a list of tool patterns`);
+    }
+    const tools: Record<string, ToolRule> = {};
+    for (const [name, value] of Object.entries(checkObject(file.tools ?? {}, '"tools"', path))) {
+      const rule = checkObject(value, `"tools.${name}"`, path, TOOL_RULE_KEYS);
+      if (rule.require_dry_run !== undefined && typeof rule.require_dry_run !== 'boolean') {
+        throw new Error(`"tools.${name}.require_dry_run" in policy file ${path} must be true or false`);
+      }
+      tools[name] = {
+        projects: numberList(rule.projects, `tools.${name}.projects`, path),
+        environments: stringList(rule.environments, `tools.${name}.environments`, path),
+        require_dry_run: rule.require_dry_run,
+      };
+    }
+    const confirmArgument = file.allow_confirm_argument ?? true;
+    if (typeof confirmArgument !== 'boolean') {
+      throw new Error(`"allow_confirm_argument" in policy file ${path} must be true or false`);
+    }
+    const projectCreate = file.allow_project_create ?? false;
+    if (typeof projectCreate !== 'boolean') {
+      throw new Error(`"allow_project_create" in policy file ${path} must be true or false`);
+    }
+    const maxBulk = file.max_bulk_faults;
+    if (maxBulk !== undefined && !(Number.isInteger(maxBulk) && maxBulk > 0)) {
+      throw new Error(`"max_bulk_faults" in policy file ${path} must be a positive integer`);
+    }
+
+    return new ToolPolicy({
+      allow_tools: stringList(file.allow_tools, 'allow_tools', path) || ['*'],
+      deny_tools: stringList(file.deny_tools, 'deny_tools', path) || [],
+      write_projects: numberList(file.write_projects, 'write_projects', path),
+      write_environments: stringList(file.write_environments, 'write_environments', path),
+      allow_project_create: projectCreate,
+      require_dry_run: dryRun,
+      max_bulk_faults: maxBulk,
+      allow_confirm_argument: confirmArgument,
+      tools,
+    });
+  }
+
+  get maxBulkFaults(): number | undefined {
+    return this.config.max_bulk_faults;
+  }
+
+  get allowsConfirmArgument(): boolean {
+    return this.config.allow_confirm_argument;
+  }
+
+  allowsTool(tool: string): boolean {
+    return this.allow.some((p) => p.test(tool)) && !this.deny.some((p) => p.test(tool));
+  }
+
+  requiresDryRun(tool: string, destructive: boolean): boolean {
+    const override = this.config.tools[tool]?.require_dry_run;
+    if (override !== undefined) return override;
+    const rule = this.config.require_dry_run;
+    if (Array.isArray(rule)) return rule.some((pattern) => globToRegExp(pattern).test(tool));
+    return rule === 'destructive' ? destructive : rule;
+  }
+
+  /**
+   * Throws when a write by `tool` to this project is out of scope. Tool rules
+   * replace the global scope, so a delete tool can be locked to sandbox projects.
+   */
+  checkProject(tool: string, projectId: number) {
+    const scope = this.config.tools[tool]?.projects ?? this.config.write_projects;
+    if (scope && !scope.includes(projectId)) {
+      throw new Error(`Policy does not allow ${tool} on project ${projectId} (allowed: ${scope.join(', ') || 'none'})`);
+    }
+  }
+
+  /**
+   * Throws when `tool` is limited to certain projects and the policy does not
+   * set allow_project_create, since the project being created is in no scope.
+   */
+  checkProjectCreation(tool: string) {
+    const scope = this.config.tools[tool]?.projects ?? this.config.write_projects;
+    if (scope && !this.config.allow_project_create) {
+      throw new Error(
+        `Policy limits ${tool} to projects ${scope.join(', ') || '(none)'} and does not allow creating projects. `
+        + 'Set "allow_project_create": true in the policy file to permit it.'
+      );
+    }
+  }
+
+  restrictsEnvironments(tool: string): boolean {
+    return (this.config.tools[tool]?.environments ?? this.config.write_environments) !== undefined;
+  }
+
+  checkEnvironment(tool: string, environment: string | undefined) {
+    const scope = this.config.tools[tool]?.environments ?? this.config.write_environments;
+    if (scope && !scope.includes(environment || '')) {
+      throw new Error(
+        `Policy does not allow ${tool} in environment "${environment || 'unknown'}" (allowed: ${scope.join(', ') || 'none'})`
+      );
+    }
+  }
+}
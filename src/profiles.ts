@@ -0,0 +1,120 @@
+import { readFileSync } from 'node:fs';
+
+// Name of the profile built from HONEYBADGER_* environment variables
+export const ENV_PROFILE = 'default';
+
+export interface Profile {
+  name: string;
+  apiKey: string;
+  // Where the key comes from, for messages that must not show the key itself
+  apiKeySource: string;
+  baseUrl: string;
+  reportingUrl: string;
+  projectId?: string;
+  environment?: string;
+  readOnly: boolean;
+}
+
+export interface ProfileSummary {
+  name: string;
+  default: boolean;
+  base_url: string;
+  project_id?: string;
+  environment?: string;
+  read_only: boolean;
+  api_key: string;
+}
+
+const str = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value));
+
+/**
+ * Named Honeybadger connections (API key, base URL, default project and
+ * environment, read-only flag) so one server can reach several accounts.
+ */
+export class ProfileRegistry {
+  constructor(private profiles: Map<string, Profile>, readonly defaultName: string) {
+    if (!profiles.has(defaultName)) {
+      throw new Error(`Default profile "${defaultName}" is not configured. Configured profiles: ${this.names().join(', ')}`);
+    }
+  }
+
+  /**
+   * Builds the registry from the environment profile plus an optional JSON file:
+   * `{ "default": "name", "profiles": { "name": { "api_key" | "api_key_env",
+   * "base_url", "reporting_url", "project_id", "environment", "read_only" } } }`.
+   * File profiles inherit URLs and the read-only flag from the environment, never
+   * its key or project. `selected` (HONEYBADGER_PROFILE) overrides the file's default.
+   */
+  static load(base: Profile, path?: string, selected?: string, env: NodeJS.ProcessEnv = process.env): ProfileRegistry {
+    const profiles = new Map<string, Profile>();
+    if (!path) {
+      profiles.set(base.name, base);
+      return new ProfileRegistry(profiles, selected || base.name);
+    }
+
+    let file: any;
+    try {
+      file = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read profiles file ${path}: ${error.message}`);
+    }
+    if (!file || typeof file.profiles !== 'object' || Array.isArray(file.profiles)) {
+      throw new Error(`Profiles file ${path} must have a "profiles" object`);
+    }
+
+    // The environment connection stays available unless the file replaces it
+    if (base.apiKey) profiles.set(base.name, base);
+    for (const [name, entry] of Object.entries<any>(file.profiles)) {
+      if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid profile name "${name}" in ${path}. Use letters, digits, ".", "_" or "-".`);
+      const keyEnv = str(entry?.api_key_env);
+      profiles.set(name, {
+        name,
+        apiKey: (keyEnv ? env[keyEnv] : str(entry?.api_key)) || '',
+        apiKeySource: keyEnv || (entry?.api_key ? `profile "${name}" in ${path}` : 'no api_key or api_key_env'),
+        baseUrl: str(entry?.base_url) || base.baseUrl,
+        reportingUrl: str(entry?.reporting_url) || base.reportingUrl,
+        projectId: str(entry?.project_id),
+        environment: str(entry?.environment),
+        readOnly: entry?.read_only !== undefined ? entry.read_only !== false : base.readOnly,
+      });
+    }
+    if (profiles.size === 0) throw new Error(`Profiles file ${path} does not define any profiles`);
+
+    const fallback = profiles.has(ENV_PROFILE) ? ENV_PROFILE : profiles.keys().next().value as string;
+    return new ProfileRegistry(profiles, selected || str(file.default) || fallback);
+  }
+
+  get size(): number {
+    return this.profiles.size;
+  }
+
+  names(): string[] {
+    return Array.from(this.profiles.keys());
+  }
+
+  get(name?: string): Profile {
+    const profile = this.profiles.get(name || this.defaultName);
+    if (!profile) throw new Error(`Unknown profile "${name}". Configured profiles: ${this.names().join(', ')}`);
+    return profile;
+  }
+
+  list(): Profile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Profile details that are safe to show: the key is reported as present or
+   * missing, with its source, never as a value.
+   */
+  summarize(profile: Profile): ProfileSummary {
+    return {
+      name: profile.name,
+      default: profile.name === this.defaultName,
+      base_url: profile.baseUrl,
+      ...(profile.projectId ? { project_id: profile.projectId } : {}),
+      ...(profile.environment ? { environment: profile.environment } : {}),
+      read_only: profile.readOnly,
+      api_key: profile.apiKey ? `set (${profile.apiKeySource})` : `missing (${profile.apiKeySource})`,
+    };
+  }
+}
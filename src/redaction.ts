@@ -0,0 +1,183 @@
+import { readFileSync } from 'node:fs';
+
+export interface ValueScrubber {
+  name: string;
+  pattern: RegExp;
+  // Optional check to cut false positives (e.g., Luhn for card numbers)
+  validate?: (match: string) => boolean;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  // Keys (case-insensitive, exact) that are never redacted, even if they match a rule
+  allowKeys: string[];
+  // Case-insensitive substrings; a key containing one has its whole value redacted
+  denyKeys: string[];
+  scrubbers: ValueScrubber[];
+}
+
+export type RedactionCounts = Record<string, number>;
+
+export const DEFAULT_DENY_KEYS = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'authorization',
+  'cookie',
+  'email',
+  'api_key',
+  'apikey',
+  'access_key',
+  'private_key',
+  'credit_card',
+  'card_number',
+  'cvv',
+  'ssn',
+  'session_id',
+];
+
+function passesLuhn(match: string): boolean {
+  const digits = match.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const DEFAULT_SCRUBBERS: ValueScrubber[] = [
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { name: 'bearer', pattern: /\b(?:Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi },
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // Major card IIN prefixes only, so epoch timestamps and IDs are left alone
+  { name: 'card_number', pattern: /\b(?:4|5[1-5]|2[2-7]|3[47]|6011|65)(?:[ -]?\d){10,17}\b/g, validate: passesLuhn },
+];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/-/g, '_');
+
+/**
+ * Scrubs sensitive data from API payloads before they reach the model. Keys
+ * matching a deny rule lose their whole value; every other string is scanned
+ * by the value scrubbers. Redacted values are replaced with `[REDACTED:<rule>]`.
+ */
+export class Redactor {
+  private allowKeys: Set<string>;
+  private denyKeys: string[];
+
+  constructor(private config: RedactionConfig) {
+    this.allowKeys = new Set(config.allowKeys.map(normalizeKey));
+    this.denyKeys = config.denyKeys.map(normalizeKey);
+  }
+
+  /**
+   * Builds the redaction config from env vars and an optional JSON file:
+   * HONEYBADGER_REDACTION=false disables redaction; HONEYBADGER_REDACT_ALLOW_KEYS and
+   * HONEYBADGER_REDACT_DENY_KEYS take comma-separated keys; HONEYBADGER_REDACTION_CONFIG
+   * points to `{ "allow_keys": [], "deny_keys": [], "value_patterns": { "name": "regex" } }`.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Redactor {
+    const list = (value?: string) => (value || '').split(',').map((k) => k.trim()).filter(Boolean);
+    let file: any = {};
+    if (env.HONEYBADGER_REDACTION_CONFIG) {
+      try {
+        file = JSON.parse(readFileSync(env.HONEYBADGER_REDACTION_CONFIG, 'utf8'));
+      } catch (error: any) {
+        throw new Error(`Failed to load HONEYBADGER_REDACTION_CONFIG: ${error.message}`);
+      }
+    }
+    const customScrubbers: ValueScrubber[] = Object.entries(file.value_patterns || {}).map(([name, pattern]) => {
+      try {
+        return { name, pattern: new RegExp(String(pattern), 'g') };
+      } catch (error: any) {
+        throw new Error(`Invalid redaction pattern "${name}": ${error.message}`);
+      }
+    });
+
+    return new Redactor({
+      enabled: env.HONEYBADGER_REDACTION !== 'false' && file.enabled !== false,
+      allowKeys: [...(file.allow_keys || []), ...list(env.HONEYBADGER_REDACT_ALLOW_KEYS)],
+      denyKeys: [...DEFAULT_DENY_KEYS, ...(file.deny_keys || []), ...list(env.HONEYBADGER_REDACT_DENY_KEYS)],
+      scrubbers: [...DEFAULT_SCRUBBERS, ...customScrubbers],
+    });
+  }
+
+  /**
+   * The same rules, applied even when redaction is turned off, for data that
+   * is written to disk rather than shown to the model.
+   */
+  alwaysEnabled(): Redactor {
+    return new Redactor({ ...this.config, enabled: true });
+  }
+
+  /**
+   * Returns a redacted deep copy of `value` and per-rule counts. Keys listed in
+   * `skipKeys` (e.g., `backtrace`) are copied through untouched on the top-level
+   * object, or on each item when `value` is a list. Deeper keys of the same name,
+   * such as `params.backtrace`, are redacted like any other.
+   */
+  redact<T>(value: T, options: { skipKeys?: string[] } = {}): { value: T; counts: RedactionCounts } {
+    const counts: RedactionCounts = {};
+    if (!this.config.enabled) return { value, counts };
+    const skipKeys = new Set(options.skipKeys || []);
+    const bump = (rule: string) => {
+      counts[rule] = (counts[rule] || 0) + 1;
+    };
+
+    const walk = (node: any, top: boolean): any => {
+      if (typeof node === 'string') return this.scrubString(node, bump);
+      if (Array.isArray(node)) return node.map((child) => walk(child, top));
+      if (node && typeof node === 'object') {
+        const out: any = {};
+        for (const [key, child] of Object.entries(node)) {
+          const normalized = normalizeKey(key);
+          if ((top && skipKeys.has(key)) || this.allowKeys.has(normalized)) {
+            out[key] = child;
+            continue;
+          }
+          const rule = this.denyKeys.find((deny) => normalized.includes(deny));
+          // Flags like `email_verified: true` carry nothing worth hiding
+          if (rule && child !== null && child !== undefined && child !== '' && typeof child !== 'boolean') {
+            out[key] = `[REDACTED:${rule}]`;
+            bump(rule);
+            continue;
+          }
+          out[key] = walk(child, false);
+        }
+        return out;
+      }
+      return node;
+    };
+
+    return { value: walk(value, true), counts };
+  }
+
+  private scrubString(text: string, bump: (rule: string) => void): string {
+    let result = text;
+    for (const scrubber of this.config.scrubbers) {
+      result = result.replace(scrubber.pattern, (match) => {
+        if (scrubber.validate && !scrubber.validate(match)) return match;
+        bump(scrubber.name);
+        return `[REDACTED:${scrubber.name}]`;
+      });
+    }
+    return result;
+  }
+
+  static summarize(counts: RedactionCounts): string | undefined {
+    const entries = Object.entries(counts);
+    if (entries.length === 0) return undefined;
+    const total = entries.reduce((n, [, count]) => n + count, 0);
+    const detail = entries
+      .sort(([, a], [, b]) => b - a)
+      .map(([rule, count]) => `${rule} ×${count}`)
+      .join(', ');
+    return `Redacted ${total} sensitive value${total === 1 ? '' : 's'} (${detail})`;
+  }
+}
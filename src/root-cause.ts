@@ -0,0 +1,99 @@
+import { z } from 'zod';
+
+// Analysis facts sent to the client model are capped so a large request
+// context cannot crowd out the instructions
+const MAX_PROMPT_FACTS_CHARS = 16000;
+
+export const ROOT_CAUSE_SYSTEM_PROMPT = `You are a senior engineer triaging a production error from Honeybadger.
+Base every claim on the facts you are given; say so when the data is not enough.
+Values shown as [REDACTED:<rule>] were removed on purpose: do not guess them.
+Reply with a single JSON object and nothing else, matching:
+{
+  "summary": "one sentence on what is going wrong",
+  "root_cause": "the most likely cause, referencing files, methods and data from the facts",
+  "confidence": "low" | "medium" | "high",
+  "evidence": ["fact from the data that supports the hypothesis", ...],
+  "fix": {
+    "description": "the change you would make",
+    "steps": ["concrete step", ...],
+    "code": "optional code sketch of the fix"
+  },
+  "verification": ["how to confirm the cause or the fix", ...]
+}`;
+
+const rootCauseSchema = z.object({
+  summary: z.string().min(1),
+  root_cause: z.string().min(1),
+  confidence: z.enum(['low', 'medium', 'high']).catch('low'),
+  evidence: z.array(z.string()).default([]),
+  fix: z.object({
+    description: z.string().min(1),
+    steps: z.array(z.string()).default([]),
+    code: z.string().optional(),
+  }),
+  verification: z.array(z.string()).default([]),
+});
+
+export type RootCauseHypothesis = z.infer<typeof rootCauseSchema>;
+
+/**
+ * Builds the user message for the client model from the data sections of an
+ * issue analysis (overview, backtrace, context, trend and impact).
+ */
+export function buildRootCausePrompt(facts: string): string {
+  const clipped = facts.length > MAX_PROMPT_FACTS_CHARS
+    ? `${facts.slice(0, MAX_PROMPT_FACTS_CHARS)}\n\n[facts truncated]`
+    : facts;
+  return `Propose a root-cause hypothesis and a fix for this error.\n\n${clipped}`;
+}
+
+/**
+ * Parses the model's reply, tolerating code fences and prose around the JSON
+ * object. Throws when no valid hypothesis can be read.
+ */
+export function parseRootCauseResponse(text: string): RootCauseHypothesis {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error('the model reply did not contain a JSON object');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new Error('the model reply was not valid JSON');
+  }
+  const result = rootCauseSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`the model reply is missing "${issue.path.join('.')}"`);
+  }
+  return result.data;
+}
+
+/**
+ * Markdown for a sampled hypothesis, labelled as model output.
+ */
+export function formatRootCause(hypothesis: RootCauseHypothesis, model?: string): string {
+  const source = model ? `generated by \`${model}\` through MCP sampling` : 'generated by the client model through MCP sampling';
+  const lines = [
+    '## Root-Cause Hypothesis (model-generated)',
+    `> Everything in this section was ${source} from the data above. Verify it before acting on it.`,
+    '',
+    `**Summary:** ${hypothesis.summary}`,
+    '',
+    `**Likely root cause** (confidence: ${hypothesis.confidence}): ${hypothesis.root_cause}`,
+  ];
+  if (hypothesis.evidence.length > 0) {
+    lines.push('', '**Evidence:**', ...hypothesis.evidence.map((e) => `- ${e}`));
+  }
+  lines.push('', '## Proposed Fix (model-generated)', hypothesis.fix.description);
+  if (hypothesis.fix.steps.length > 0) {
+    lines.push('', ...hypothesis.fix.steps.map((step, i) => `${i + 1}. ${step}`));
+  }
+  if (hypothesis.fix.code) {
+    lines.push('', '```', hypothesis.fix.code.replace(/^```\w*\n?|\n?```$/g, ''), '```');
+  }
+  if (hypothesis.verification.length > 0) {
+    lines.push('', '**Verification:**', ...hypothesis.verification.map((v) => `- ${v}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs';
+
+export interface SavedQueryParam {
+  type: 'string' | 'number';
+  description?: string;
+  default?: string | number;
+}
+
+export interface SavedQuery {
+  name: string;
+  description?: string;
+  // BadgerQL with {{param}} placeholders
+  query: string;
+  // Default time range, e.g. "P1D" or "week"
+  ts?: string;
+  project_id?: number;
+  params: Record<string, SavedQueryParam>;
+}
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Named BadgerQL queries loaded from a JSON file, run by name with parameters
+ * (such as the environment) and an optional time range override.
+ */
+export class SavedQueryLibrary {
+  constructor(private queries: Map<string, SavedQuery>, readonly path?: string) {}
+
+  /**
+   * Reads HONEYBADGER_SAVED_QUERIES: `{ "queries": { "name": { "query",
+   * "description", "ts", "project_id", "params": { "environment": { "type",
+   * "default", "description" } } } } }`. Every placeholder must be a declared param.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SavedQueryLibrary {
+    const path = env.HONEYBADGER_SAVED_QUERIES;
+    if (!path) return new SavedQueryLibrary(new Map());
+
+    let file: any;
+    try {
+      file = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Could not read saved queries file ${path}: ${error.message}`);
+    }
+    if (!file || typeof file.queries !== 'object' || Array.isArray(file.queries)) {
+      throw new Error(`Saved queries file ${path} must have a "queries" object`);
+    }
+
+    const queries = new Map<string, SavedQuery>();
+    for (const [name, entry] of Object.entries<any>(file.queries)) {
+      if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid saved query name "${name}" in ${path}. Use letters, digits, ".", "_" or "-".`);
+      if (typeof entry?.query !== 'string' || !entry.query.trim()) {
+        throw new Error(`Saved query "${name}" in ${path} needs a "query" string`);
+      }
+      const params: Record<string, SavedQueryParam> = {};
+      for (const [param, spec] of Object.entries<any>(entry.params || {})) {
+        const type = spec?.type ?? (typeof spec?.default === 'number' ? 'number' : 'string');
+        if (type !== 'string' && type !== 'number') {
+          throw new Error(`Param "${param}" of saved query "${name}" in ${path} must have type "string" or "number"`);
+        }
+        params[param] = { type, description: spec?.description, default: spec?.default };
+      }
+      for (const [, param] of entry.query.matchAll(PLACEHOLDER)) {
+        if (!params[param]) throw new Error(`Saved query "${name}" in ${path} uses {{${param}}} but does not declare it in "params"`);
+      }
+      queries.set(name, {
+        name,
+        description: entry.description,
+        query: entry.query,
+        ts: entry.ts,
+        project_id: entry.project_id !== undefined ? Number(entry.project_id) : undefined,
+        params,
+      });
+    }
+    return new SavedQueryLibrary(queries, path);
+  }
+
+  get size(): number {
+    return this.queries.size;
+  }
+
+  list(): SavedQuery[] {
+    return Array.from(this.queries.values());
+  }
+
+  get(name: string): SavedQuery {
+    const query = this.queries.get(name);
+    if (!query) {
+      const names = Array.from(this.queries.keys());
+      throw new Error(`Unknown saved query "${name}". ${names.length > 0 ? `Saved queries: ${names.join(', ')}` : 'No saved queries are configured (HONEYBADGER_SAVED_QUERIES).'}`);
+    }
+    return query;
+  }
+
+  /**
+   * The query text with placeholders filled from `values`, falling back to the
+   * param defaults. Strings are inserted as quoted BadgerQL literals, so values
+   * cannot change the query's structure.
+   */
+  render(saved: SavedQuery, values: Record<string, string | number | undefined>): string {
+    const missing = Object.keys(saved.params).filter((p) => (values[p] ?? saved.params[p].default) === undefined);
+    if (missing.length > 0) throw new Error(`Saved query "${saved.name}" needs: ${missing.join(', ')}`);
+    const unknown = Object.keys(values).filter((p) => values[p] !== undefined && !saved.params[p] && p !== 'environment');
+    if (unknown.length > 0) {
+      throw new Error(`Saved query "${saved.name}" has no param ${unknown.join(', ')} (params: ${Object.keys(saved.params).join(', ') || 'none'})`);
+    }
+
+    return saved.query.replace(PLACEHOLDER, (_, param: string) => {
+      const spec = saved.params[param];
+      const value = values[param] ?? spec.default!;
+      if (spec.type === 'number') {
+        const number = Number(value);
+        if (!Number.isFinite(number)) throw new Error(`Param "${param}" of saved query "${saved.name}" must be a number`);
+        return String(number);
+      }
+      return JSON.stringify(String(value));
+    });
+  }
+}
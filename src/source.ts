@@ -0,0 +1,201 @@
+import { execFile } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+const PROJECT_ROOT_TOKEN = '[PROJECT_ROOT]';
+const DEFAULT_CONTEXT_LINES = 5;
+// How far to look for a captured line that moved since the notice was reported
+const MOVED_LINE_SEARCH = 25;
+const GIT_TIMEOUT_MS = 5000;
+
+export interface PathRewrite {
+  from: string;
+  to: string;
+}
+
+export interface BacktraceFrame {
+  number: string;
+  file: string;
+  method: string;
+  source?: { [line: string]: string };
+}
+
+export type FrameStatus = 'found' | 'line_changed' | 'missing' | 'out_of_range' | 'unmapped';
+
+export interface ResolvedFrame {
+  file: string;
+  line: number;
+  method: string;
+  status: FrameStatus;
+  local_path?: string;
+  // Where the originally captured line is now, when it moved
+  moved_to?: number;
+  revision?: string;
+  revision_error?: string;
+  code?: Array<{ line: number; text: string; current?: boolean }>;
+}
+
+/**
+ * Parses HONEYBADGER_PATH_REWRITES: comma-separated `from=to` prefix pairs,
+ * e.g. `/app/=,/var/www/current/=`. Targets are relative to the workspace root.
+ */
+export function parsePathRewrites(value: string | undefined): PathRewrite[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) throw new Error(`Invalid HONEYBADGER_PATH_REWRITES entry "${entry}". Use from=to.`);
+      return { from: entry.slice(0, separator), to: entry.slice(separator + 1) };
+    });
+}
+
+/**
+ * Maps backtrace frames to files in a local checkout and returns the code
+ * around each line, either from the working tree or from a git revision.
+ */
+export class SourceResolver {
+  private root: string;
+
+  constructor(root: string, private rewrites: PathRewrite[] = [], private contextLines = DEFAULT_CONTEXT_LINES) {
+    this.root = resolve(root);
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SourceResolver | undefined {
+    if (!env.HONEYBADGER_WORKSPACE_ROOT) return undefined;
+    return new SourceResolver(
+      env.HONEYBADGER_WORKSPACE_ROOT,
+      parsePathRewrites(env.HONEYBADGER_PATH_REWRITES),
+      Number(env.HONEYBADGER_SOURCE_CONTEXT_LINES) || DEFAULT_CONTEXT_LINES
+    );
+  }
+
+  /**
+   * Returns the frame's path relative to the workspace root, or undefined when
+   * the frame is outside the project (gems, node_modules, stdlib).
+   */
+  relativePath(file: string): string | undefined {
+    let mapped: string | undefined;
+    if (file.startsWith(PROJECT_ROOT_TOKEN)) {
+      mapped = file.slice(PROJECT_ROOT_TOKEN.length);
+    } else {
+      const rule = this.rewrites.find((r) => file.startsWith(r.from));
+      if (rule) mapped = join(rule.to, file.slice(rule.from.length));
+    }
+    if (mapped === undefined) return undefined;
+
+    const absolute = isAbsolute(mapped) && mapped.startsWith(this.root)
+      ? mapped
+      : join(this.root, mapped.replace(/^\/+/, ''));
+    const rel = relative(this.root, absolute);
+    // Rewritten paths must stay inside the checkout
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) return undefined;
+    return rel;
+  }
+
+  async resolveFrame(frame: BacktraceFrame, revision?: string): Promise<ResolvedFrame> {
+    const line = Number(frame.number) || 0;
+    const base: ResolvedFrame = { file: frame.file, line, method: frame.method, status: 'unmapped' };
+    const rel = this.relativePath(frame.file);
+    if (!rel) return base;
+    base.local_path = join(this.root, rel);
+
+    let content: string | undefined;
+    if (revision) {
+      try {
+        content = await this.readAtRevision(rel, revision);
+        base.revision = revision;
+      } catch (error: any) {
+        base.revision_error = error.message;
+      }
+    }
+    if (content === undefined) {
+      content = await readFile(base.local_path, 'utf8').catch(() => undefined);
+    }
+    if (content === undefined) return { ...base, status: 'missing' };
+
+    const lines = content.split('\n');
+    if (line < 1 || line > lines.length) return { ...base, status: 'out_of_range' };
+
+    const captured = frame.source?.[String(line)];
+    let status: FrameStatus = 'found';
+    let focus = line;
+    if (captured !== undefined && captured.trim() !== lines[line - 1].trim()) {
+      status = 'line_changed';
+      const moved = this.findMovedLine(lines, captured, line);
+      if (moved) {
+        base.moved_to = moved;
+        focus = moved;
+      }
+    }
+
+    const start = Math.max(1, focus - this.contextLines);
+    const end = Math.min(lines.length, focus + this.contextLines);
+    const code = lines.slice(start - 1, end).map((text, i) => ({
+      line: start + i,
+      text,
+      ...(start + i === focus ? { current: true } : {}),
+    }));
+    return { ...base, status, code };
+  }
+
+  async resolveFrames(frames: BacktraceFrame[], revision?: string): Promise<ResolvedFrame[]> {
+    return Promise.all(frames.map((frame) => this.resolveFrame(frame, revision)));
+  }
+
+  private findMovedLine(lines: string[], captured: string, line: number): number | undefined {
+    const target = captured.trim();
+    if (!target) return undefined;
+    for (let offset = 1; offset <= MOVED_LINE_SEARCH; offset++) {
+      for (const candidate of [line - offset, line + offset]) {
+        if (candidate >= 1 && candidate <= lines.length && lines[candidate - 1].trim() === target) return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  private async readAtRevision(rel: string, revision: string): Promise<string> {
+    // Revisions come from Honeybadger deploy data; refuse anything git could read as an option
+    if (!/^[\w][\w./-]*$/.test(revision)) throw new Error(`Unsupported revision "${revision}"`);
+    try {
+      const { stdout } = await execFileAsync('git', ['-C', this.root, 'show', `${revision}:${rel.split('\\').join('/')}`], {
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error: any) {
+      const reason = String(error.stderr || error.message).trim().split('\n')[0];
+      throw new Error(`git show ${revision}:${rel} failed: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Renders resolved frames as Markdown code blocks for analysis output.
+ */
+export function formatResolvedFrames(frames: ResolvedFrame[]): string {
+  return frames
+    .filter((frame) => frame.status !== 'unmapped')
+    .map((frame) => {
+      let heading = `**${frame.local_path}:${frame.line}** in \`${frame.method}\``;
+      if (frame.revision) heading += ` @ ${frame.revision}`;
+      if (frame.status === 'missing') return `${heading}\n- File not found in the local checkout`;
+      if (frame.status === 'out_of_range') return `${heading}\n- Line ${frame.line} is past the end of the local file`;
+      const notes: string[] = [];
+      if (frame.status === 'line_changed') {
+        notes.push(frame.moved_to
+          ? `- Line changed since the error; the reported code is now at line ${frame.moved_to}`
+          : '- Line changed since the error; the reported code was not found nearby');
+      }
+      if (frame.revision_error) notes.push(`- Showing the working tree (${frame.revision_error})`);
+      const code = (frame.code || [])
+        .map((l) => `${l.current ? '>' : ' '} ${String(l.line).padStart(4)}: ${l.text}`)
+        .join('\n');
+      return [heading, ...notes, '```', code, '```'].join('\n');
+    })
+    .join('\n\n');
+}
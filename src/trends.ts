@@ -0,0 +1,166 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+// A bucket is a spike when it clears the median by this many robust deviations
+const SPIKE_DEVIATIONS = 3;
+const MIN_SPIKE_COUNT = 5;
+// Silences shorter than this never count as a regression, whatever the usual rate
+const MIN_REGRESSION_SILENCE_MS = 24 * HOUR_MS;
+const REGRESSION_GAP_FACTOR = 10;
+
+export interface TrendDeploy {
+  id: number;
+  revision: string;
+  environment?: string;
+  created_at: string;
+}
+
+export interface FaultTrend {
+  from: string;
+  to: string;
+  bucket_hours: number;
+  total: number;
+  // The notice cap was hit; `from` was moved up to the oldest notice fetched
+  truncated: boolean;
+  buckets: Array<{ start: string; count: number }>;
+  baseline_per_bucket: number;
+  spikes: Array<{ start: string; count: number; factor: number }>;
+  growth: {
+    previous: number;
+    current: number;
+    // null when the fault had no occurrences in the previous half
+    change_pct: number | null;
+  };
+  regression?: {
+    silent_from: string;
+    returned_at: string;
+    silent_hours: number;
+    deploy?: TrendDeploy;
+  };
+}
+
+export function bucketHoursFor(windowHours: number): number {
+  if (windowHours <= 48) return 1;
+  if (windowHours <= 168) return 6;
+  return 24;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Finds the longest silence between occurrences. It counts as a regression
+ * when it is both over a day and far longer than the fault's usual gap, which
+ * is what a fix (or resolve) followed by a return looks like. The latest deploy
+ * inside the silence is the likely trigger.
+ */
+export function findRegression(times: number[], deploys: TrendDeploy[] = []): FaultTrend['regression'] {
+  if (times.length < 3) return undefined;
+  const gaps = times.slice(1).map((t, i) => ({ from: times[i], to: t, ms: t - times[i] }));
+  const longest = gaps.reduce((a, b) => (b.ms > a.ms ? b : a));
+  const usual = median(gaps.map((g) => g.ms));
+  if (longest.ms < Math.max(MIN_REGRESSION_SILENCE_MS, usual * REGRESSION_GAP_FACTOR)) return undefined;
+
+  const deploy = deploys
+    .filter((d) => {
+      const at = new Date(d.created_at).getTime();
+      return at > longest.from && at <= longest.to;
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+  return {
+    silent_from: new Date(longest.from).toISOString(),
+    returned_at: new Date(longest.to).toISOString(),
+    silent_hours: Math.round(longest.ms / HOUR_MS),
+    ...(deploy ? { deploy } : {}),
+  };
+}
+
+/**
+ * Buckets occurrence timestamps into a series and derives a median baseline,
+ * spikes, growth (second half of the window vs the first) and regressions.
+ */
+export function analyzeTrend(
+  timestamps: string[],
+  options: { from: Date; to: Date; bucketHours: number; truncated?: boolean; deploys?: TrendDeploy[] }
+): FaultTrend {
+  const bucketMs = options.bucketHours * HOUR_MS;
+  const to = options.to.getTime();
+  const times = timestamps
+    .map((ts) => new Date(ts).getTime())
+    .filter((t) => !isNaN(t) && t <= to)
+    .sort((a, b) => a - b);
+
+  // When the notice cap was hit, older occurrences are missing; only analyze
+  // the span we have complete data for
+  let from = options.from.getTime();
+  if (options.truncated && times.length > 0) from = Math.max(from, times[0]);
+  const inWindow = times.filter((t) => t >= from);
+
+  const bucketCount = Math.max(1, Math.ceil((to - from) / bucketMs));
+  const counts = new Array(bucketCount).fill(0);
+  for (const t of inWindow) counts[Math.min(bucketCount - 1, Math.floor((t - from) / bucketMs))]++;
+  const buckets = counts.map((count, i) => ({ start: new Date(from + i * bucketMs).toISOString(), count }));
+
+  const baseline = median(counts);
+  const deviation = 1.4826 * median(counts.map((c) => Math.abs(c - baseline)));
+  const threshold = baseline + SPIKE_DEVIATIONS * Math.max(deviation, Math.sqrt(Math.max(baseline, 1)));
+  const spikes = buckets
+    .filter((b) => b.count >= MIN_SPIKE_COUNT && b.count > threshold)
+    .map((b) => ({ ...b, factor: Math.round((b.count / Math.max(baseline, 1)) * 10) / 10 }));
+
+  const half = Math.floor(bucketCount / 2);
+  const previous = counts.slice(0, half).reduce((a, b) => a + b, 0);
+  const current = counts.slice(half).reduce((a, b) => a + b, 0);
+
+  const regression = findRegression(times, options.deploys);
+  return {
+    from: new Date(from).toISOString(),
+    to: options.to.toISOString(),
+    bucket_hours: options.bucketHours,
+    total: inWindow.length,
+    truncated: Boolean(options.truncated),
+    buckets,
+    baseline_per_bucket: baseline,
+    spikes,
+    growth: {
+      previous,
+      current,
+      change_pct: previous > 0 ? Math.round(((current - previous) / previous) * 100) : null,
+    },
+    ...(regression ? { regression } : {}),
+  };
+}
+
+/**
+ * Markdown summary of a trend for issue analysis.
+ */
+export function formatTrend(trend: FaultTrend): string {
+  const lines = [
+    `- Occurrences ${trend.from} → ${trend.to}: ${trend.total}${trend.truncated ? ' (notice cap reached; window shortened)' : ''}`,
+    `- Baseline: ${trend.baseline_per_bucket} per ${trend.bucket_hours}h`,
+  ];
+  const { previous, current, change_pct } = trend.growth;
+  const change = change_pct === null
+    ? (current > 0 ? 'new in this window' : 'no change')
+    : `${change_pct > 0 ? '+' : ''}${change_pct}%`;
+  lines.push(`- Growth: ${previous} → ${current} occurrences, first half vs second half (${change})`);
+  if (trend.spikes.length > 0) {
+    lines.push(`- Spikes: ${trend.spikes.map((s) => `${s.start} (${s.count}, ${s.factor}× baseline)`).join(', ')}`);
+  } else {
+    lines.push('- Spikes: none detected');
+  }
+  if (trend.regression) {
+    const r = trend.regression;
+    let line = `- **Regression:** silent for ${r.silent_hours}h after ${r.silent_from}, returned ${r.returned_at}`;
+    if (r.deploy) line += `, after deploy #${r.deploy.id} (${r.deploy.revision}${r.deploy.environment ? `, ${r.deploy.environment}` : ''})`;
+    lines.push(line);
+  }
+  const sparkline = trend.buckets.map((b) => b.count);
+  const max = Math.max(...sparkline, 1);
+  const blocks = '▁▂▃▄▅▆▇█';
+  lines.push(`- Series: \`${sparkline.map((c) => blocks[Math.min(7, Math.floor((c / max) * 7))]).join('')}\``);
+  return lines.join('\n');
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkBadgerQL } from '../src/badgerql.js';
+
+const messages = (query: string) => checkBadgerQL(query).errors.map((e) => e.message);
+
+describe('checkBadgerQL', () => {
+  it('accepts a pipeline and describes each stage', () => {
+    const check = checkBadgerQL('filter event_type::str == "notice" | stats count() by class::str | sort count() desc | limit 10');
+    assert.equal(check.valid, true);
+    assert.deepEqual(check.steps, [
+      'Keep events where event_type::str == "notice"',
+      'Aggregate count() grouped by class::str',
+      'Sort by count() desc',
+      'Return at most 10 rows',
+    ]);
+  });
+
+  it('rejects SQL, unknown commands and bad limits', () => {
+    assert.match(messages('SELECT * FROM events')[0], /not SQL/);
+    assert.match(messages('filtr x::str == "a"')[0], /did you mean "filter"/);
+    assert.match(messages('fields @ts | limit 0')[0], /positive whole number/);
+    assert.match(messages('fields @ts |')[0], /ends with a pipe/);
+  });
+
+  it('reports unbalanced brackets and strings with their position', () => {
+    const check = checkBadgerQL('stats count(');
+    assert.deepEqual(check.errors[0], { message: 'Unclosed "("', line: 1, column: 12 });
+    assert.match(messages('filter message::str == "oops')[0], /Unterminated string/);
+  });
+
+  it('reads regex literals as one token, and "/" after a value as division', () => {
+    assert.equal(checkBadgerQL('filter message::str match /^Timeout\\d+$/').valid, true);
+    assert.equal(checkBadgerQL('filter message::str match /.*timeout/i | stats count()').valid, true);
+    assert.equal(checkBadgerQL('filter path::str =~ /a[/]b/').valid, true);
+    assert.equal(checkBadgerQL('filter duration::int / 1000 > 2').valid, true);
+    assert.match(messages('filter message::str match /abc')[0], /Unterminated regex/);
+  });
+
+  it('warns on unknown casts, aggregates and "=" comparisons', () => {
+    const { valid, warnings } = checkBadgerQL('filter a::string = "x" | stats median(b::int)');
+    assert.equal(valid, true);
+    assert.deepEqual(warnings.map((w) => w.message), [
+      '"string" is not a known type (str, int, float, bool, time)',
+      'BadgerQL compares with "==", not "="',
+      '"median" is not a known aggregate (count, sum, avg, min, max, percentile, unique, first, last)',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startFakeApi } from '../src/fake-api.js';
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/;
+
+// The server as users run it, over stdio, with a clean environment
+async function connect(env: Record<string, string>, client = new Client({ name: 'test', version: '1.0.0' })) {
+  await client.connect(new StdioClientTransport({
+    command: process.execPath,
+    args: ['--import', 'tsx', 'src/index.ts'],
+    env: { PATH: process.env.PATH || '', HOME: process.env.HOME || '', HONEYBADGER_AUDIT_LOG: 'false', ...env },
+    stderr: 'ignore',
+  }));
+  return client;
+}
+
+const text = (result: any) => result.content[0].text as string;
+
+describe('server against the fake API', () => {
+  let api: Server;
+  let baseUrl: string;
+  const dir = mkdtempSync(join(tmpdir(), 'honeybadger-cassette-'));
+
+  before(async () => {
+    api = await startFakeApi({ host: '127.0.0.1', port: 0 });
+    baseUrl = `http://127.0.0.1:${(api.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    api.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded session offline, with the cassette redacted even when redaction is off', async () => {
+    const cassette = join(dir, 'session.json');
+    const calls = [
+      { name: 'list_honeybadger_faults', arguments: { project_id: 1001, max_results: 3 } },
+      { name: 'get_honeybadger_fault', arguments: { project_id: 1001, fault_id: 5001 } },
+      { name: 'list_honeybadger_fault_affected_users', arguments: { project_id: 1001, fault_id: 5001 } },
+    ];
+
+    const recorder = await connect({
+      HONEYBADGER_API_KEY: 'test-key',
+      HONEYBADGER_BASE_URL: baseUrl,
+      HONEYBADGER_CASSETTE: cassette,
+      HONEYBADGER_CASSETTE_MODE: 'record',
+      HONEYBADGER_REDACTION: 'false',
+    });
+    const recorded = [];
+    for (const call of calls) recorded.push(text(await recorder.callTool(call)));
+    await recorder.close();
+
+    assert.doesNotMatch(readFileSync(cassette, 'utf8'), EMAIL);
+    assert.doesNotMatch(readFileSync(cassette, 'utf8'), /hunter2/);
+
+    // No API key and nothing listening: every response comes from the cassette
+    const player = await connect({
+      HONEYBADGER_BASE_URL: 'http://127.0.0.1:9',
+      HONEYBADGER_CASSETTE: cassette,
+      HONEYBADGER_REDACTION: 'false',
+    });
+    for (const [i, call] of calls.entries()) {
+      const replayed = await player.callTool(call);
+      assert.equal(replayed.isError, undefined);
+      // Replay serves the redacted copy, so only calls without personal data match verbatim
+      if (i < 2) assert.equal(text(replayed), recorded[i]);
+    }
+    const missing = await player.callTool({ name: 'get_honeybadger_fault', arguments: { project_id: 1001, fault_id: 5002 } });
+    assert.equal(missing.isError, true);
+    assert.match(text(missing), /No recorded response for GET \/projects\/1001\/faults\/5002/);
+    await player.close();
+  });
+
+  it('refuses string IDs that would walk out of their API path', async () => {
+    const client = await connect({ HONEYBADGER_API_KEY: 'test-key', HONEYBADGER_BASE_URL: baseUrl, HONEYBADGER_READ_ONLY: 'false' });
+    const attempts = [
+      { name: 'delete_honeybadger_check_in', arguments: { project_id: 1001, check_in_id: '../../1002', confirm: true } },
+      { name: 'get_honeybadger_uptime_site', arguments: { project_id: 1001, site_id: '%2e%2e' } },
+      { name: 'list_honeybadger_account_users', arguments: { account_id: '../projects/1001/faults' } },
+    ];
+    for (const call of attempts) {
+      const result = await client.callTool(call);
+      assert.equal(result.isError, true);
+      assert.match(text(result), /Must be a plain ID/);
+    }
+    const projects = await client.callTool({ name: 'list_honeybadger_projects', arguments: {} });
+    assert.match(text(projects), /"id": 1002/);
+    await client.close();
+  });
+
+  it('sends the root cause model no raw email addresses', async () => {
+    const prompts: string[] = [];
+    const client = new Client({ name: 'test', version: '1.0.0' }, { capabilities: { sampling: {} } });
+    client.setRequestHandler(CreateMessageRequestSchema, async (request: any) => {
+      prompts.push(request.params.messages[0].content.text);
+      return { model: 'test-model', role: 'assistant', content: { type: 'text', text: 'not json' } };
+    });
+    await connect({ HONEYBADGER_API_KEY: 'test-key', HONEYBADGER_BASE_URL: baseUrl }, client);
+
+    const result = await client.callTool({ name: 'analyze_honeybadger_issue', arguments: { project_id: 1001, fault_id: 5001 } });
+    await client.close();
+
+    assert.equal(prompts.length, 1);
+    assert.match(prompts[0], /Impact Assessment/);
+    assert.doesNotMatch(prompts[0], EMAIL);
+    assert.doesNotMatch(text(result), EMAIL);
+  });
+});
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { diffNotices } from '../src/notice-diff.js';
+
+describe('diffNotices', () => {
+  const notices = [
+    { id: 'a', created_at: '2026-10-01T00:00:00Z', environment: 'production', params: { plan: 'free', id: '1' } },
+    { id: 'b', created_at: '2026-10-02T00:00:00Z', environment: 'production', params: { plan: 'free', id: '2' } },
+    { id: 'c', created_at: '2026-10-03T00:00:00Z', environment: 'production', params: { plan: 'pro', id: '3' } },
+  ];
+
+  it('separates constant fields from varying ones, ignoring bookkeeping keys', () => {
+    const diff = diffNotices(notices);
+    assert.equal(diff.notices_compared, 3);
+    assert.deepEqual(diff.notice_ids, ['a', 'b', 'c']);
+    assert.deepEqual(diff.constant, { environment: 'production' });
+    assert.deepEqual(diff.varying.map((f) => f.field), ['params.plan', 'params.id']);
+  });
+
+  it('groups notices by value, most common first', () => {
+    const plan = diffNotices(notices).varying[0];
+    assert.equal(plan.distinct_values, 2);
+    assert.deepEqual(plan.values, [
+      { value: 'free', count: 2, notice_ids: ['a', 'b'] },
+      { value: 'pro', count: 1, notice_ids: ['c'] },
+    ]);
+  });
+
+  it('counts notices missing a field', () => {
+    const diff = diffNotices([...notices, { id: 'd', environment: 'production' }]);
+    assert.equal(diff.varying.find((f) => f.field === 'params.plan')?.missing_in, 1);
+  });
+});
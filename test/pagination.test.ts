@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeCursor, encodeCursor, nextPageRequest } from '../src/pagination.js';
+
+describe('encodeCursor / decodeCursor', () => {
+  const cursor = { endpoint: '/projects/1/faults', params: { q: 'is:unresolved', limit: 25, page: '2' }, skip: 3 };
+
+  it('round-trips a cursor for the same listing', () => {
+    assert.deepEqual(decodeCursor(encodeCursor(cursor), '/projects/1/faults'), cursor);
+  });
+
+  it('refuses cursors from another listing or that are not cursors', () => {
+    assert.throws(() => decodeCursor(encodeCursor(cursor), '/projects/2/faults'), /Invalid cursor for this listing/);
+    assert.throws(() => decodeCursor('not a cursor', '/projects/1/faults'), /Invalid cursor/);
+  });
+
+  it('drops params and skips a hand-edited cursor should not carry', () => {
+    const edited = encodeCursor({
+      ...cursor,
+      params: { ...cursor.params, api_key: 'x', order: { $ne: 1 } },
+      skip: -4,
+    });
+    assert.deepEqual(decodeCursor(edited, '/projects/1/faults'), { ...cursor, skip: 0 });
+  });
+});
+
+describe('nextPageRequest', () => {
+  it('strips /v2 from next links', () => {
+    assert.deepEqual(nextPageRequest('https://app.honeybadger.io/v2/projects/1/faults?page=2', 'https://app.honeybadger.io'), {
+      endpoint: '/projects/1/faults',
+      params: { page: '2' },
+    });
+  });
+
+  it('strips a base URL path prefix', () => {
+    const next = nextPageRequest('https://proxy.example.com/honeybadger/v2/projects/1/notices?page=3', 'https://proxy.example.com/honeybadger/');
+    assert.deepEqual(next, { endpoint: '/projects/1/notices', params: { page: '3' } });
+  });
+
+  it('returns undefined on the last page', () => {
+    assert.equal(nextPageRequest(undefined, 'https://app.honeybadger.io'), undefined);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ToolPolicy } from '../src/policy.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'honeybadger-policy-'));
+const policyFile = (name: string, policy: any) => {
+  const path = join(dir, `${name}.json`);
+  writeFileSync(path, JSON.stringify(policy));
+  return ToolPolicy.fromEnv({ HONEYBADGER_POLICY_FILE: path });
+};
+
+describe('ToolPolicy', () => {
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('allows everything without a policy file', () => {
+    const policy = ToolPolicy.fromEnv({});
+    assert.equal(policy.allowsTool('delete_honeybadger_project'), true);
+    assert.equal(policy.requiresDryRun('delete_honeybadger_project', true), false);
+    assert.doesNotThrow(() => policy.checkProject('update_honeybadger_fault', 1));
+    assert.doesNotThrow(() => policy.checkProjectCreation('create_honeybadger_project'));
+    assert.equal(policy.allowsConfirmArgument, true);
+  });
+
+  it('matches tool patterns, with deny winning over allow', () => {
+    const policy = policyFile('tools', { allow_tools: ['list_*', 'get_*'], deny_tools: ['get_honeybadger_notice'] });
+    assert.equal(policy.allowsTool('list_honeybadger_faults'), true);
+    assert.equal(policy.allowsTool('get_honeybadger_notice'), false);
+    assert.equal(policy.allowsTool('delete_honeybadger_project'), false);
+  });
+
+  it('scopes writes to projects and environments, with tool rules replacing the global scope', () => {
+    const policy = policyFile('scopes', {
+      write_projects: [1001],
+      write_environments: ['staging'],
+      tools: { delete_honeybadger_project: { projects: [9999] } },
+    });
+    assert.doesNotThrow(() => policy.checkProject('update_honeybadger_fault', 1001));
+    assert.throws(() => policy.checkProject('update_honeybadger_fault', 1002), /allowed: 1001/);
+    assert.throws(() => policy.checkProject('delete_honeybadger_project', 1001), /allowed: 9999/);
+    assert.throws(() => policy.checkEnvironment('update_honeybadger_fault', 'production'), /environment "production"/);
+  });
+
+  it('refuses project creation under a project scope unless allow_project_create is set', () => {
+    assert.throws(
+      () => policyFile('create', { write_projects: [1001] }).checkProjectCreation('create_honeybadger_project'),
+      /allow_project_create/
+    );
+    const allowed = policyFile('create-allowed', { write_projects: [1001], allow_project_create: true });
+    assert.doesNotThrow(() => allowed.checkProjectCreation('create_honeybadger_project'));
+  });
+
+  it('requires dry runs for destructive tools, listed patterns or per tool', () => {
+    const destructive = policyFile('dry-run', {
+      require_dry_run: 'destructive',
+      tools: { update_honeybadger_fault: { require_dry_run: true } },
+    });
+    assert.equal(destructive.requiresDryRun('delete_honeybadger_check_in', true), true);
+    assert.equal(destructive.requiresDryRun('create_honeybadger_check_in', false), false);
+    assert.equal(destructive.requiresDryRun('update_honeybadger_fault', false), true);
+    assert.equal(policyFile('dry-run-list', { require_dry_run: ['bulk_*'] }).requiresDryRun('bulk_update_honeybadger_faults', false), true);
+  });
+
+  it('rejects malformed policy files', () => {
+    assert.throws(() => policyFile('bad-projects', { write_projects: ['abc'] }), /must be an array of project IDs/);
+    assert.throws(() => policyFile('bad-bulk', { max_bulk_faults: 0 }), /positive integer/);
+    assert.throws(() => policyFile('bad-create', { allow_project_create: 'yes' }), /true or false/);
+    assert.throws(() => policyFile('bad-list', { write_projects: [true, ''] }), /must be an array of project IDs/);
+    assert.throws(() => policyFile('not-object', [1001]), /the top level in policy file .* must be an object/);
+  });
+
+  it('checks tool rules like top-level keys and rejects unknown keys', () => {
+    const rule = (value: any) => policyFile('rule', { tools: { delete_honeybadger_project: value } });
+    assert.throws(() => rule({ require_dry_run: 'yes' }), /"tools.delete_honeybadger_project.require_dry_run" .* must be true or false/);
+    assert.throws(() => rule({ projects: 1001 }), /"tools.delete_honeybadger_project.projects" .* must be an array of project IDs/);
+    assert.throws(() => rule(true), /"tools.delete_honeybadger_project" in policy file .* must be an object/);
+    assert.throws(() => rule({ project: [1001] }), /Unknown key "project" in "tools.delete_honeybadger_project"/);
+    assert.throws(() => policyFile('typo', { write_project: [1001] }), /Unknown key "write_project" in the top level/);
+    assert.throws(() => ToolPolicy.fromEnv({ HONEYBADGER_POLICY_FILE: join(dir, 'missing.json') }), /Could not read policy file/);
+  });
+});
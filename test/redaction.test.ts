@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DENY_KEYS, DEFAULT_SCRUBBERS, Redactor } from '../src/redaction.js';
+
+const redactor = (overrides: { enabled?: boolean; allowKeys?: string[] } = {}) => new Redactor({
+  enabled: overrides.enabled ?? true,
+  allowKeys: overrides.allowKeys ?? [],
+  denyKeys: DEFAULT_DENY_KEYS,
+  scrubbers: DEFAULT_SCRUBBERS,
+});
+
+describe('Redactor', () => {
+  it('replaces the values of denied keys, whatever their case or separator', () => {
+    const { value, counts } = redactor().redact({ params: { Password: 'hunter2', 'X-Api-Key': 'abc', id: '42' } });
+    assert.deepEqual(value, { params: { Password: '[REDACTED:password]', 'X-Api-Key': '[REDACTED:api_key]', id: '42' } });
+    assert.deepEqual(counts, { password: 1, api_key: 1 });
+  });
+
+  it('scrubs emails, bearer tokens and valid card numbers inside strings', () => {
+    const { value } = redactor().redact({
+      message: 'Login failed for ada@example.com',
+      header: 'Bearer abcdefgh12345678',
+      note: 'card 4111 1111 1111 1111, order 4111 1111 1111 1112',
+    });
+    assert.equal(value.message, 'Login failed for [REDACTED:email]');
+    assert.equal(value.header, '[REDACTED:bearer]');
+    // The second number fails the Luhn check, so it is left alone
+    assert.equal(value.note, 'card [REDACTED:card_number], order 4111 1111 1111 1112');
+  });
+
+  it('leaves allowed keys, skipped keys and boolean flags untouched', () => {
+    const { value } = redactor({ allowKeys: ['user_email'] }).redact(
+      { user_email: 'ada@example.com', email_verified: true, backtrace: [{ file: 'token.rb' }] },
+      { skipKeys: ['backtrace'] }
+    );
+    assert.deepEqual(value, { user_email: 'ada@example.com', email_verified: true, backtrace: [{ file: 'token.rb' }] });
+  });
+
+  it('skips keys only at the top level of the value or of each list item', () => {
+    const notice = { assignee: { email: 'ada@example.com' }, params: { assignee: { email: 'grace@example.com' } } };
+    const { value } = redactor().redact([notice], { skipKeys: ['assignee'] });
+    assert.deepEqual(value, [{ assignee: { email: 'ada@example.com' }, params: { assignee: { email: '[REDACTED:email]' } } }]);
+  });
+
+  it('returns the value unchanged when disabled, unless forced on', () => {
+    const disabled = redactor({ enabled: false });
+    const payload = { user: 'ada@example.com' };
+    assert.equal(disabled.redact(payload).value, payload);
+    assert.deepEqual(disabled.alwaysEnabled().redact(payload).value, { user: '[REDACTED:email]' });
+  });
+
+  it('summarizes counts, most frequent rule first', () => {
+    assert.equal(Redactor.summarize({}), undefined);
+    assert.equal(Redactor.summarize({ email: 1, password: 2 }), 'Redacted 3 sensitive values (password ×2, email ×1)');
+  });
+});